@@ -0,0 +1,268 @@
+// Prints who is in the office on the coming working days and what the meeting rooms are booked
+// for, without opening the browser app. Run it with `bun run whosin --help`.
+import { createSign } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { Temporal } from "temporal-polyfill";
+import { humanDate, isTimeZone, today, workingDays } from "../src/dates.ts";
+import { bundledHolidays, holidayRules } from "../src/holidays.ts";
+import { googleFetch, googleResponse, withRetry, type FetchFn } from "../src/googleApi.ts";
+import {
+  daySummary,
+  displayName,
+  fetchHoozinData,
+  stateReducer,
+  type Action,
+  type PersonSummary,
+  type State,
+} from "../src/hoozin.ts";
+import { fetchWazzupData, type RoomInformation } from "../src/wazzap.ts";
+import { createScheduler } from "../src/scheduler.ts";
+
+const usage = `Usage: bun run whosin [options]
+
+Options:
+  --days <n>           Number of working days to show (default 5)
+  --from <date>        First day to show, as YYYY-MM-DD (default today)
+  --time-zone <zone>   Time zone of the office (default TZ or the system time zone)
+  --office <building>  Building ID that counts as the office, others are listed separately
+  --country <code>     Skip public holidays of ${Object.keys(holidayRules).join(", ")}
+  --skip-rooms         Do not list meeting rooms
+  --json               Print JSON instead of tables
+  --token <token>      OAuth access token of a user (default GOOGLE_ACCESS_TOKEN)
+  --key-file <path>    Service account key with domain-wide delegation
+                       (default GOOGLE_APPLICATION_CREDENTIALS)
+  --subject <email>    User the service account acts as (default GOOGLE_SUBJECT)
+  --verbose            Log requests to stderr
+  --help               Show this help`;
+
+const scopes = [
+  "https://www.googleapis.com/auth/calendar.readonly",
+  "https://www.googleapis.com/auth/directory.readonly",
+];
+
+type ServiceAccountKey = { client_email: string; private_key: string; token_uri?: string };
+
+// Exchanges a signed JWT for an access token that acts on behalf of subject
+async function serviceAccountToken(keyFile: string, subject: string): Promise<string> {
+  const key: ServiceAccountKey = JSON.parse(await readFile(keyFile, "utf8"));
+  const tokenUri = key.token_uri ?? "https://oauth2.googleapis.com/token";
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iss: key.client_email,
+    sub: subject,
+    scope: scopes.join(" "),
+    aud: tokenUri,
+    iat: now,
+    exp: now + 3600,
+  })}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(key.private_key, "base64url");
+
+  const response = await googleFetch(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${unsigned}.${signature}`,
+    }),
+  });
+  const { access_token }: { access_token: string } = await googleResponse(response);
+  return access_token;
+}
+
+// Requests are logged to stderr when verbose, stdout only gets the report
+function googleFetchFn(accessToken: string, verbose: boolean): FetchFn {
+  const schedule = createScheduler({ concurrency: 6, ratePerSecond: 8, burst: 20 });
+  return function fetchFn<T>(...[url, init]: Parameters<typeof fetch>) {
+    return withRetry(async () => {
+      if (verbose) {
+        console.error(init?.method ?? "GET", url.toString());
+      }
+      const response = await schedule(() =>
+        googleFetch(url, {
+          ...init,
+          headers: { ...init?.headers, Authorization: `Bearer ${accessToken}` },
+        })
+      );
+      return googleResponse<T>(response);
+    });
+  };
+}
+
+function time(dateTime: Temporal.ZonedDateTime): string {
+  return dateTime.toPlainTime().toString({ smallestUnit: "minute" });
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      days: { type: "string", default: "5" },
+      from: { type: "string" },
+      "time-zone": { type: "string" },
+      office: { type: "string" },
+      country: { type: "string", default: "" },
+      "skip-rooms": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      token: { type: "string", default: process.env.GOOGLE_ACCESS_TOKEN },
+      "key-file": { type: "string", default: process.env.GOOGLE_APPLICATION_CREDENTIALS },
+      subject: { type: "string", default: process.env.GOOGLE_SUBJECT },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const timeZone =
+    values["time-zone"] ??
+    (process.env.TZ && isTimeZone(process.env.TZ) ? process.env.TZ : Temporal.Now.timeZoneId());
+  if (!isTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone ${timeZone}`);
+  }
+  const count = Number(values.days);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("--days has to be a positive whole number");
+  }
+
+  let accessToken = values.token;
+  if (!accessToken && values["key-file"]) {
+    if (!values.subject) {
+      throw new Error("A service account needs --subject, the user to act as");
+    }
+    accessToken = await serviceAccountToken(values["key-file"], values.subject);
+  }
+  if (!accessToken) {
+    throw new Error("Pass --token or --key-file, see --help");
+  }
+  const fetch = googleFetchFn(accessToken, values.verbose);
+
+  const start = values.from ? Temporal.PlainDate.from(values.from) : today(timeZone);
+  // Enough days to cover the working days even around Easter and Christmas
+  const holidays = new Map(
+    bundledHolidays(values.country, start, start.add({ days: count * 2 + 14 })).map((day) => [
+      day.date,
+      day,
+    ])
+  );
+  // Holidays after the first day are listed as closed, like in the app
+  const days = workingDays(start, count, (date) => holidays.has(date.toString()));
+
+  let state: State = {
+    people: [],
+    ignorePeople: new Set(),
+    groups: [],
+    group: null,
+    assumedLocation: "unknown",
+    office: values.office ?? null,
+    calendarStatus: {},
+    events: [],
+    syncTokens: { calendars: {} },
+  };
+  const dispatch = (action: Action) => {
+    state = stateReducer(state, action);
+  };
+
+  const [, rooms] = await Promise.all([
+    fetchHoozinData(fetch, dispatch, {
+      minDate: days[0],
+      maxDate: days[days.length - 1],
+      timeZone,
+      known: state,
+    }),
+    values["skip-rooms"]
+      ? Promise.resolve<RoomInformation[]>([])
+      : // The scopes above do not cover the Admin Directory
+        fetchWazzupData(fetch, timeZone, { directory: false }),
+  ]);
+
+  const report = days.map((date) => {
+    const { byStatus, elsewhere, loading, failed } = daySummary(state, date);
+    return {
+      date,
+      closed: holidays.get(date.toString())?.name ?? null,
+      office: byStatus.officeLocation,
+      home: byStatus.homeOffice,
+      tbd: byStatus.unknown ?? [],
+      away: byStatus.away,
+      elsewhere: Object.fromEntries(elsewhere),
+      unavailable: [...loading, ...failed],
+    };
+  });
+
+  if (values.json) {
+    console.log(
+      JSON.stringify(
+        {
+          timeZone,
+          days: report.map((day) => ({ ...day, date: day.date.toString() })),
+          rooms: rooms.map((room) => ({
+            ...room,
+            events: room.events.map((event) => ({
+              title: event.title,
+              start: event.start.toString({ timeZoneName: "never" }),
+              end: event.end.toString({ timeZoneName: "never" }),
+            })),
+          })),
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  const names = (people: PersonSummary[]) =>
+    people.map((person) => displayName(person.name, state.people)).join(", ");
+  const row = (title: string, people: PersonSummary[]) => {
+    if (people.length > 0) {
+      console.log(`  ${`${title} (${people.length})`.padEnd(24)} ${names(people)}`);
+    }
+  };
+  for (const day of report) {
+    console.log(`${humanDate(day.date, today(timeZone))} ${day.date}`);
+    if (day.closed) {
+      console.log(`  Closed for ${day.closed}\n`);
+      continue;
+    }
+    row("Office", day.office);
+    for (const [title, people] of Object.entries(day.elsewhere)) {
+      row(title, people);
+    }
+    row("Home", day.home);
+    row("Away", day.away);
+    row("TBD", day.tbd);
+    if (day.unavailable.length > 0) {
+      console.log(
+        `  ${`Unavailable (${day.unavailable.length})`.padEnd(24)} ${day.unavailable.join(", ")}`
+      );
+    }
+    console.log("");
+  }
+
+  if (rooms.length > 0) {
+    console.log("Rooms");
+    for (const room of rooms) {
+      const title = room.maxAttendance ? `${room.name} (${room.maxAttendance})` : room.name;
+      const agenda = room.error
+        ? room.error
+        : room.events
+            .slice(0, 3)
+            .map(
+              (event) =>
+                `${humanDate(event.start.toPlainDate(), today(timeZone))} ${time(
+                  event.start
+                )}–${time(event.end)} ${event.title}`
+            )
+            .join(", ") || "No upcoming events";
+      console.log(`  ${title.padEnd(24)} ${agenda}`);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
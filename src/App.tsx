@@ -1,183 +1,119 @@
 import { Temporal } from "temporal-polyfill";
 import {
   createContext,
+  Fragment,
   useCallback,
   useContext,
   useEffect,
   useMemo,
   useReducer,
+  useRef,
   useState,
 } from "react";
 import "./App.css";
+import {
+  dateWindow,
+  humanDate,
+  timeZoneSetting,
+  startOfWeek,
+  today,
+  workingDays,
+} from "./dates.ts";
+import {
+  bundledHolidays,
+  holidayRules,
+  holidaySettings,
+  type ClosedDay,
+  type HolidaySettings,
+} from "./holidays.ts";
+import {
+  cacheFetch,
+  clearCache,
+  invalidateCache,
+  onCacheUpdate,
+  purgeCache,
+  type CachePolicy,
+} from "./cache.ts";
+import {
+  errorDescription,
+  googleFetch,
+  googleResponse,
+  withRetry,
+  GoogleApiError,
+  type FetchFn,
+} from "./googleApi.ts";
+import type { DemoApi } from "./demo.ts";
+import { demoOptions, leaveDemo, type DemoOptions } from "./demoOptions.ts";
+import {
+  daySummary,
+  displayName,
+  fetchClosedDays,
+  fetchHoozinData,
+  ignorePeople,
+  officeBuildings,
+  stateReducer,
+  syncSnapshot,
+  updateMyLocation,
+  workLocation,
+  type Action,
+  type MyLocation,
+  type State,
+  type SyncSnapshot,
+  type WorkLocation,
+} from "./hoozin.ts";
+import { fetchGoogleGroupMembers, fetchGoogleGroups, groups } from "./groups.ts";
+import {
+  digest,
+  favouritesSetting,
+  newOverlaps,
+  officeDays,
+  officeDaysSnapshot,
+  seenOfficeDays,
+} from "./favourites.ts";
+import {
+  bookRoom,
+  cancelBooking,
+  fetchFreeBusy,
+  fetchRoomDay,
+  fetchRoomEvents,
+  fetchRooms,
+  fetchWazzupData,
+  findRoom,
+  roomGroups,
+  roomSlug,
+  roomStatus,
+  searchRooms,
+  waitForRoom,
+  type RoomInformation,
+  type RoomMatch,
+} from "./wazzap.ts";
+import {
+  capacitySettings,
+  utilisation,
+  type CapacitySettings,
+  type Utilisation,
+} from "./capacity.ts";
+import { createScheduler } from "./scheduler.ts";
+import { parseRoute, routeHash, type Route } from "./router.ts";
 
 interface TokenResponse {
   access_token: string;
   expires_in: number;
   hd: string;
   scope: string;
+  error?: string;
+  error_description?: string;
 }
 
-interface GooglePerson {
-  emailAddresses?: { value: string; metadata?: { primary: boolean } }[];
-  names?: { displayName: string; metadata?: { primary: boolean } }[];
-}
+// Tokens are stored with the time they expire, expires_in is relative to when they were granted
+type StoredToken = TokenResponse & { expiresAt: number };
 
-type GoogleCalendarEvent =
-  | {
-      eventType: "workingLocation";
-      start: { date: string };
-      end: { date: string };
-      workingLocationProperties: {
-        type: "officeLocation" | "homeOffice";
-      };
-    }
-  | {
-      eventType: "outOfOffice";
-      start: { dateTime: string };
-      end: { dateTime: string };
-    }
-  | {
-      summary: string;
-      eventType: "default";
-      start: { dateTime: string };
-      end: { dateTime: string };
-    };
-
-type WorkLocation = "homeOffice" | "officeLocation" | "unknown";
+const demo = demoOptions(window.location.hash);
 
-function workLocation(value: string | null): WorkLocation {
-  if (value === "homeOffice" || value === "officeLocation" || value === "unknown") {
-    return value;
-  }
-  return "unknown";
-}
-
-function ignorePeople(value: string | null): Set<string> {
-  if (value) {
-    try {
-      const parsed = JSON.parse(value);
-      if (Array.isArray(parsed) && parsed.every((item) => typeof item === "string")) {
-        return new Set(parsed);
-      }
-    } catch {
-      // Ignore invalid JSON
-    }
-  }
-  return new Set();
-}
-
-type State = {
-  people: {
-    email: string;
-    name: string;
-  }[];
-  ignorePeople: Set<string>;
-  assumedLocation: WorkLocation;
-  events: {
-    date: string;
-    personEmail: string;
-    location: WorkLocation;
-  }[];
-};
-
-type Action =
-  | {
-      type: "ADD_PERSON_EVENT";
-      email: string;
-      calendarEvent: GoogleCalendarEvent;
-    }
-  | {
-      type: "DISCOVERED_PERSON";
-      email: string;
-      name: string;
-    }
-  | {
-      type: "UPDATE_PREFERRED_LOCATION";
-      location: WorkLocation;
-    }
-  | {
-      type: "UPDATE_IGNORE_STATE";
-      email: string;
-      ignored: boolean;
-    };
-
-function stateReducer(currentState: State, action: Action): State {
-  switch (action.type) {
-    case "ADD_PERSON_EVENT": {
-      const newEvents = [...currentState.events];
-      const { email, calendarEvent } = action;
-      if (calendarEvent.eventType === "workingLocation") {
-        const { start, end, workingLocationProperties } = calendarEvent;
-        let currentDate = Temporal.PlainDate.from(start.date);
-        const endDate = Temporal.PlainDate.from(end.date);
-        while (Temporal.PlainDate.compare(currentDate, endDate) < 0) {
-          const dateString = currentDate.toString();
-          let stateEntry = newEvents.find(
-            (entry) => entry.date === dateString && entry.personEmail === email
-          );
-          const status = workingLocationProperties.type ?? "unknown";
-          if (stateEntry) {
-            stateEntry.location = status;
-          } else {
-            stateEntry = { date: dateString, personEmail: email, location: status };
-            newEvents.push(stateEntry);
-          }
-          currentDate = currentDate.add({ days: 1 });
-        }
-        return {
-          events: newEvents,
-          ignorePeople: currentState.ignorePeople,
-          assumedLocation: currentState.assumedLocation,
-          people: currentState.people,
-        };
-      } else {
-        // TODO: Fetch and handle outOfOffice events
-        return currentState;
-      }
-    }
-    case "DISCOVERED_PERSON": {
-      if (currentState.people.findIndex((p) => p.email === action.email) > -1) {
-        return currentState;
-      }
-      return {
-        events: currentState.events,
-        ignorePeople: currentState.ignorePeople,
-        assumedLocation: currentState.assumedLocation,
-        people: [
-          ...currentState.people,
-          {
-            email: action.email,
-            name: action.name,
-          },
-        ],
-      };
-    }
-    case "UPDATE_PREFERRED_LOCATION": {
-      return {
-        events: currentState.events,
-        ignorePeople: currentState.ignorePeople,
-        assumedLocation: action.location,
-        people: currentState.people,
-      };
-    }
-    case "UPDATE_IGNORE_STATE": {
-      let newIgnoreList = Array.from(currentState.ignorePeople);
-      if (action.ignored) {
-        // Remove from ignore list
-        newIgnoreList = newIgnoreList.filter((email) => email !== action.email);
-      } else {
-        newIgnoreList = [...newIgnoreList, action.email];
-      }
-      return {
-        events: currentState.events,
-        ignorePeople: new Set(newIgnoreList),
-        assumedLocation: currentState.assumedLocation,
-        people: currentState.people,
-      };
-    }
-    default:
-      return currentState;
-  }
+// Bump when fetching or storing events changes, old sync tokens would not return them again
+const syncSnapshotKey = demo ? "hoozinDemoSync" : "hoozinSyncV4";
+for (const oldKey of ["hoozinSync", "hoozinSyncV2", "hoozinSyncV3"]) {
+  localStorage.removeItem(oldKey);
 }
 
 async function digestMessage(message: string) {
@@ -188,346 +124,645 @@ async function digestMessage(message: string) {
   return hashHex;
 }
 
-type FetchFn = <T>(...args: Parameters<typeof fetch>) => Promise<T>;
-
-async function fetchHoozinData(
-  fetchWithCache: FetchFn,
-  dispatch: React.Dispatch<Action>,
-  options: { minDate: Temporal.PlainDate; maxDate: Temporal.PlainDate }
-) {
-  let url = new URL("https://content-people.googleapis.com/v1/people:listDirectoryPeople");
-  url.searchParams.set("readMask", "names,emailAddresses,calendarUrls");
-  url.searchParams.set("sources", "DIRECTORY_SOURCE_TYPE_DOMAIN_PROFILE");
-  url.searchParams.set("pageSize", "100");
-  url.searchParams.set("requestSyncToken", "true");
-
-  // TODO: Use sync token
-  // if (peopleSyncToken) {
-  //   url.searchParams.set("syncToken", peopleSyncToken);
-  // }
-  const data1: { error: unknown } | { people: GooglePerson[]; nextSyncToken: string } =
-    await fetchWithCache(url);
-
-  for (const person of (data1 as { people: GooglePerson[] }).people) {
-    const email = person.emailAddresses?.find((e) => e.metadata?.primary)?.value;
-    if (!email) {
-      continue;
-    }
-    const name = person.names?.find((n) => n.metadata?.primary)?.displayName || email;
+type TGoogleTokenContext = {
+  fetch: FetchFn;
+  // Writes, and reads that are sent as POST, go straight to the API without the response cache
+  send: FetchFn;
+  // Email address of the signed in user
+  account: string | null;
+  signOut: () => Promise<void>;
+  switchAccount: () => Promise<void>;
+  // Drops cached responses about a calendar after writing to it, and makes consumers fetch again
+  invalidate: (calendarId: string) => Promise<void>;
+  // Whether the user has granted one of the optional scopes
+  hasScope: (scope: string) => boolean;
+  // Asks for an optional scope, must be called straight after a click to be allowed a popup
+  requestScope: (scope: string) => Promise<void>;
+};
 
-    dispatch({ type: "DISCOVERED_PERSON", email, name });
+const GoogleTokenContext = createContext<TGoogleTokenContext>({
+  fetch,
+  send: fetch,
+  account: null,
+  signOut: async () => {},
+  switchAccount: async () => {},
+  invalidate: async () => {},
+  hasScope: () => false,
+  requestScope: async () => {},
+} as TGoogleTokenContext);
 
-    url = new URL(
-      `https://content.googleapis.com/calendar/v3/calendars/${encodeURIComponent(email)}/events`
-    );
-    url.searchParams.set("eventTypes", "workingLocation");
-    url.searchParams.set("maxResults", "100");
-    url.searchParams.set("orderBy", "updated");
-    url.searchParams.set("showDeleted", "false");
-    url.searchParams.set("showHiddenInvitations", "false");
-    url.searchParams.set("singleEvents", "true");
-    url.searchParams.set(
-      "timeMin",
-      options.minDate.toPlainDateTime({ hour: 0, minute: 0, second: 0, millisecond: 0 }).toString({
-        fractionalSecondDigits: 0,
-      }) + "Z"
-    );
-    url.searchParams.set(
-      "timeMax",
-      options.maxDate
-        .add({ days: 1 })
-        .toPlainDateTime({ hour: 0, minute: 0, second: 0, millisecond: 0 })
-        .toString({
-          fractionalSecondDigits: 0,
-        }) + "Z"
-    );
-    url.searchParams.set("timeZone", "Europe/Oslo");
+function useGoogleToken() {
+  return useContext(GoogleTokenContext);
+}
 
-    const data: { items: GoogleCalendarEvent[] } = await fetchWithCache(url);
-    for (const calendarEvent of data.items) {
-      dispatch({ type: "ADD_PERSON_EVENT", email, calendarEvent });
-    }
-  }
+type TTimeZoneContext = {
+  timeZone: string;
+  setTimeZone: (timeZone: string) => void;
+};
+
+const TimeZoneContext = createContext<TTimeZoneContext>({
+  timeZone: timeZoneSetting(null),
+  setTimeZone: () => {},
+});
+
+function useTimeZone() {
+  return useContext(TimeZoneContext);
 }
 
-type RoomInformation = {
-  name: string;
-  events: {
-    start: Temporal.PlainDateTime;
-    end: Temporal.PlainDateTime;
-    title: string;
-  }[];
-  maxAttendance?: number;
+function TimeZoneProvider({ children }: { children: React.ReactNode }) {
+  const [timeZone, setTimeZone] = useState(() => timeZoneSetting(localStorage.getItem("timeZone")));
+
+  useEffect(() => {
+    localStorage.setItem("timeZone", timeZone);
+  }, [timeZone]);
+
+  return (
+    <TimeZoneContext.Provider value={{ timeZone, setTimeZone }}>
+      {children}
+    </TimeZoneContext.Provider>
+  );
+}
+
+type TRouterContext = {
+  route: Route;
+  // Adds a history entry unless replace is set
+  navigate: (route: Route, options?: { replace?: boolean }) => void;
 };
 
-async function fetchWazzupData(fetchWithCache: FetchFn): Promise<RoomInformation[]> {
-  let url = new URL("https://www.googleapis.com/calendar/v3/users/me/calendarList");
-  url.searchParams.set("minAccessRole", "reader");
-  const data: {
-    items: {
-      id: string;
-      summary: string;
-    }[];
-  } = await fetchWithCache(url);
-
-  const rooms: RoomInformation[] = [];
-  for (const calendar of data.items) {
-    const events: RoomInformation["events"] = [];
-    // Check if part of resource.google.com domain
-    if (!calendar.id.endsWith("@resource.calendar.google.com")) {
-      continue;
-    }
-    url = new URL(
-      `https://content.googleapis.com/calendar/v3/calendars/${encodeURIComponent(
-        calendar.id
-      )}/events`
-    );
-    url.searchParams.set("eventTypes", "default");
-    url.searchParams.set("maxResults", "10");
-    url.searchParams.set("orderBy", "startTime");
-    url.searchParams.set("showDeleted", "false");
-    url.searchParams.set("showHiddenInvitations", "false");
-    url.searchParams.set("singleEvents", "true");
-    url.searchParams.set(
-      "timeMax",
-      Temporal.Now.plainDateTimeISO().add({ weeks: 1 }).toString() + "Z"
-    );
-    url.searchParams.set(
-      "timeMin",
-      Temporal.Now.plainDateTimeISO()
-        .with({
-          minute: 0,
-          second: 0,
-          millisecond: 0,
-        })
-        .toString({
-          fractionalSecondDigits: 0,
-        }) + "Z"
-    );
+const RouterContext = createContext<TRouterContext>({
+  route: parseRoute(""),
+  navigate: () => {},
+});
 
-    const response: { items: (GoogleCalendarEvent & { eventType: "default" })[] } =
-      await fetchWithCache(url);
-    console.log("Events for calendar", calendar.summary, response.items);
-    for (const event of response.items) {
-      events.push({
-        start: Temporal.PlainDateTime.from(event.start.dateTime),
-        end: Temporal.PlainDateTime.from(event.end.dateTime),
-        title: event.summary,
-      });
-    }
-    let name = calendar.summary;
-
-    // Check if name has parenthesis with a number
-    const match = name.match(/\((\d+)\)$/);
-    let maxAttendance: number | undefined;
-    if (match) {
-      maxAttendance = parseInt(match[1], 10);
-      name = name.replace(/\(\d+\)$/, "").trim();
-    }
+function useRouter() {
+  return useContext(RouterContext);
+}
 
-    if (maxAttendance) {
-      rooms.push({ name, events, maxAttendance });
-    } else {
-      rooms.push({ name, events });
-    }
-  }
-  console.log("Wazzup data", data);
-
-  // If the rooms share a prefix, remove the prefix
-  const roomNames = rooms.map((room) => room.name);
-  if (roomNames.length > 1) {
-    let prefix = roomNames[0];
-    for (const name of roomNames.slice(1)) {
-      let i = 0;
-      while (i < prefix.length && i < name.length && prefix[i] === name[i]) {
-        i++;
-      }
-      prefix = prefix.slice(0, i);
-      if (!prefix) {
-        break;
-      }
-    }
-    if (prefix) {
-      // Remove trailing non-alphanumeric characters
-      prefix = prefix.replace(/[^a-zA-Z0-9-]+$/, "");
-      if (prefix.length >= 3) {
-        for (const room of rooms) {
-          if (room.name.startsWith(prefix)) {
-            room.name = room.name.slice(prefix.length).trim();
-          }
-        }
-      }
+// Keeps the route in location.hash, so views can be linked to and back and forward work
+function RouterProvider({ children }: { children: React.ReactNode }) {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    // Old style and partial links are written out in full
+    window.history.replaceState(null, "", routeHash(parseRoute(window.location.hash)));
+    const update = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener("hashchange", update);
+    return () => {
+      window.removeEventListener("hashchange", update);
+    };
+  }, []);
+
+  const navigate = useCallback(function navigate(route: Route, options?: { replace?: boolean }) {
+    const hash = routeHash(route);
+    if (options?.replace) {
+      window.history.replaceState(null, "", hash);
+      setRoute(parseRoute(hash));
+    } else if (hash !== window.location.hash) {
+      // Fires hashchange, which updates the route
+      window.location.hash = hash;
     }
+  }, []);
+
+  return <RouterContext.Provider value={{ route, navigate }}>{children}</RouterContext.Provider>;
+}
+
+// How long Google responses are reused, by how often the data behind them changes
+function cachePolicy(url: string): CachePolicy {
+  if (url.includes("syncToken=")) {
+    // Changes since a sync token have to be applied in order, so never serve an old one
+    return { ttl: { minutes: 5 } };
+  } else if (
+    url.includes("people:listDirectoryPeople") ||
+    url.includes("/calendarList") ||
+    url.includes("/directory/v1/customer/my_customer/resources/")
+  ) {
+    return { ttl: { hours: 1 }, staleWhileRevalidate: { days: 1 } };
+  } else if (url.includes("holiday%40group.v.calendar.google.com")) {
+    return { ttl: { days: 1 }, staleWhileRevalidate: { days: 7 } };
+  } else if (url.includes("resource.calendar.google.com")) {
+    // Room bookings change by the minute
+    return { ttl: { minutes: 1 } };
   }
-  return rooms;
+  return { ttl: { minutes: 5 }, staleWhileRevalidate: { hours: 1 } };
 }
 
-type TGoogleTokenContext = {
-  fetch: FetchFn;
-};
+// Polling rooms more often than their bookings are cached would only hit the cache
+const roomRefreshInterval = Temporal.Duration.from(
+  cachePolicy("https://www.googleapis.com/calendar/v3/calendars/room@resource.calendar.google.com")
+    .ttl
+).total({ unit: "milliseconds" });
 
-const GoogleTokenContext = createContext<TGoogleTokenContext>({ fetch } as TGoogleTokenContext);
+purgeCache().catch((error) => console.warn("Could not purge response cache", error));
 
-function useGoogleToken() {
-  return useContext(GoogleTokenContext);
+// Google allows 600 Calendar API requests per minute per user, stay well below it
+const scheduleGoogleRequest = createScheduler({ concurrency: 6, ratePerSecond: 8, burst: 20 });
+
+const googleScopes = [
+  "profile",
+  "https://www.googleapis.com/auth/calendar.readonly",
+  "https://www.googleapis.com/auth/calendar.events",
+  "https://www.googleapis.com/auth/directory.readonly",
+];
+
+// Admin Directory scopes are only asked for when they are used. Most people may not read the
+// directory anyway, and a token without them is still a valid token.
+const groupsScope = "https://www.googleapis.com/auth/admin.directory.group.readonly";
+const roomsScope = "https://www.googleapis.com/auth/admin.directory.resource.calendar.readonly";
+const optionalScopes = [groupsScope, roomsScope];
+
+function grantedScopes(token: StoredToken | null): string[] {
+  return token?.scope.split(" ") ?? [];
 }
 
-async function cacheFetch<T>(
-  key: string,
-  options: { ttl: Temporal.Duration | Temporal.DurationLike },
-  fetcher: () => Promise<T>
-): Promise<T> {
-  const cached = localStorage.getItem(key);
-  if (cached) {
-    const data = JSON.parse(cached) as unknown;
-    if (data && typeof data === "object" && "expiresAt" in data) {
-      const { expiresAt } = data as { expiresAt: string; data: unknown };
-      if (
-        Temporal.PlainDateTime.compare(
-          Temporal.Now.plainDateTimeISO(),
-          Temporal.PlainDateTime.from(expiresAt)
-        ) < 0
-      ) {
-        if (data && typeof data === "object" && "data" in data) {
-          return Promise.resolve(data.data as T);
-        } else {
-          console.log("Invalid cache data (missing data key or bad shape)", data);
+function storedToken(): StoredToken | null {
+  const oldValue = localStorage.getItem("googleToken");
+  const token: StoredToken | null = oldValue ? JSON.parse(oldValue) : null;
+  // Tokens granted before a scope was added need to be requested again
+  const granted = grantedScopes(token);
+  if (googleScopes.some((scope) => scope !== "profile" && !granted.includes(scope))) {
+    return null;
+  }
+  // The sign-in library may not have loaded yet, so expired tokens are not refreshed here
+  if (!token?.expiresAt || token.expiresAt <= Date.now()) {
+    return null;
+  }
+  return token;
+}
+
+// Asks Google for an access token. With prompt "none" nothing is shown to the user, which only
+// works when they are still signed in and have already granted the scopes.
+function requestGoogleToken(options: {
+  prompt?: "none" | "select_account";
+  loginHint?: string | null;
+  // Optional scopes to ask for along with the required ones
+  scopes?: string[];
+}): Promise<StoredToken> {
+  return new Promise((resolve, reject) => {
+    // @ts-expect-error missing types
+    const tokenClient = google.accounts.oauth2.initTokenClient({
+      client_id: import.meta.env.VITE_GOOGLE_OAUTH_CLIENT_ID,
+      login_hint: options.loginHint ?? undefined,
+      prompt: options.prompt,
+      scope: [...googleScopes, ...(options.scopes ?? [])].join(" "),
+      callback: (tokenResponse: TokenResponse) => {
+        console.log("Token Response", tokenResponse);
+        if (tokenResponse.error) {
+          // Google answered, but will not hand out a token without the user, as after sign-out
+          reject(
+            new GoogleApiError("auth", 401, tokenResponse.error_description ?? tokenResponse.error)
+          );
+          return;
         }
-      } else {
-        console.log("Invalid cache data (expired)", data);
-      }
+        resolve({ ...tokenResponse, expiresAt: Date.now() + tokenResponse.expires_in * 1000 });
+      },
+      error_callback: (error: { type: string; message?: string }) => {
+        reject(new Error(error.message ?? error.type));
+      },
+    });
+    tokenClient.requestAccessToken();
+  });
+}
+
+// How long before a token expires a new one is requested
+const tokenRefreshMargin = 5 * 60 * 1000;
+// How often a wall display tries to sign in again after it was signed out
+const unattendedSignInInterval = 60 * 1000;
+
+function GoogleTokenProvider({
+  unattended = false,
+  children,
+}: {
+  // Nobody is around to click sign-in, as on a wall display, so keep trying silently
+  unattended?: boolean;
+  children: React.ReactNode;
+}) {
+  const [token, setToken] = useState<StoredToken | null>(storedToken);
+  // Requests read the token from here, so a refreshed token does not make everything refetch
+  const tokenRef = useRef(token);
+  const refreshing = useRef<Promise<StoredToken | null> | null>(null);
+  const [account, setAccount] = useState(() => localStorage.getItem("loginHint"));
+
+  const saveToken = useCallback(function saveToken(token: StoredToken | null) {
+    tokenRef.current = token;
+    if (token) {
+      localStorage.setItem("googleToken", JSON.stringify(token));
     } else {
-      console.log("Invalid cache data (missing TTL)", data);
+      localStorage.removeItem("googleToken");
     }
-  } else {
-    console.log("Cache miss for", key);
-  }
-  const data = await fetcher();
-
-  try {
-    localStorage.setItem(
-      key,
-      JSON.stringify({
-        expiresAt: Temporal.Now.plainDateTimeISO().add(options.ttl).toString(),
-        data,
-      })
-    );
-  } catch (error) {
-    if (error instanceof DOMException && error.name === "QuotaExceededError") {
-      // Clear the entire cache if we exceed quota
-      const preferredLocation = localStorage.getItem("preferredLocation");
-      console.warn("Cleared cache due to quota exceeded");
-      localStorage.clear();
-      if (preferredLocation) {
-        localStorage.setItem("preferredLocation", preferredLocation);
+    setToken(token);
+  }, []);
+
+  // Requests made while this runs wait for it. Sign-in is shown again when Google turns it down or
+  // the token has run out, a popup or network failure keeps the token while it still works.
+  const refreshToken = useCallback(
+    function refreshToken() {
+      if (!refreshing.current) {
+        refreshing.current = requestGoogleToken({
+          prompt: "none",
+          loginHint: localStorage.getItem("loginHint"),
+          // Keep the optional scopes that were granted, they need no prompt either
+          scopes: grantedScopes(tokenRef.current).filter((scope) => optionalScopes.includes(scope)),
+        })
+          .then(
+            (token) => {
+              saveToken(token);
+              return token;
+            },
+            (error) => {
+              console.warn("Could not refresh Google token", error);
+              const token = tokenRef.current;
+              if (
+                (error instanceof GoogleApiError && error.kind === "auth") ||
+                !token ||
+                token.expiresAt <= Date.now()
+              ) {
+                saveToken(null);
+                return null;
+              }
+              return token;
+            }
+          )
+          .finally(() => {
+            refreshing.current = null;
+          });
       }
-    } else {
-      throw error;
+      return refreshing.current;
+    },
+    [saveToken]
+  );
+
+  useEffect(() => {
+    if (!token) {
+      return;
     }
-  }
+    const timeout = setTimeout(
+      refreshToken,
+      Math.max(0, token.expiresAt - tokenRefreshMargin - Date.now())
+    );
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [token, refreshToken]);
 
-  return data;
-}
+  useEffect(() => {
+    if (token || !unattended || !localStorage.getItem("loginHint")) {
+      return;
+    }
+    // The sign-in library loads asynchronously, so the first attempt may come too early
+    const retry = () => {
+      refreshToken();
+    };
+    const timeout = setTimeout(retry, 1000);
+    const interval = setInterval(retry, unattendedSignInInterval);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [token, unattended, refreshToken]);
+
+  const accessToken = useCallback(
+    async function accessToken(): Promise<string> {
+      let token = refreshing.current ? await refreshing.current : tokenRef.current;
+      if (token && token.expiresAt - tokenRefreshMargin <= Date.now()) {
+        // The timer may not have fired, for instance while the computer was asleep
+        token = await refreshToken();
+      }
+      if (!token) {
+        throw new GoogleApiError("auth", 401, "Unauthorized, please sign in again");
+      }
+      return token.access_token;
+    },
+    [refreshToken]
+  );
 
-function purgeCache() {
-  const keysToRemove = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i)!;
-    try {
-      const data = JSON.parse(localStorage.getItem(key) ?? "null");
-      if (data && typeof data === "object" && "expiresAt" in data) {
-        const { expiresAt } = data as { expiresAt: string };
-        if (
-          Temporal.PlainDateTime.compare(
-            Temporal.Now.plainDateTimeISO(),
-            Temporal.PlainDateTime.from(expiresAt)
-          ) >= 0
-        ) {
-          keysToRemove.push(key);
+  // Bumped once stale responses have been refreshed in the background. Not while responses are
+  // still being fetched, consumers would start over the load they are in the middle of.
+  const [revision, setRevision] = useState(0);
+  const pendingFetches = useRef(0);
+  const revalidated = useRef(false);
+  const revisionTimeout = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const scheduleRevision = useCallback(function scheduleRevision() {
+    // Many responses are revalidated at once, refetch after the last one
+    clearTimeout(revisionTimeout.current);
+    revisionTimeout.current = setTimeout(() => {
+      if (revalidated.current && pendingFetches.current === 0) {
+        revalidated.current = false;
+        setRevision((revision) => revision + 1);
+      }
+    }, 1000);
+  }, []);
+  useEffect(() => {
+    const unsubscribe = onCacheUpdate(() => {
+      revalidated.current = true;
+      scheduleRevision();
+    });
+    return () => {
+      clearTimeout(revisionTimeout.current);
+      unsubscribe();
+    };
+  }, [scheduleRevision]);
+
+  // Sends a request through the scheduler, trying again after transient failures
+  const request = useCallback(
+    async function request<T>(
+      url: URL | RequestInfo,
+      options?: RequestInit,
+      retryOn?: (error: unknown) => boolean
+    ): Promise<T> {
+      const attempt = () =>
+        withRetry(
+          async () => {
+            const authorization = `Bearer ${await accessToken()}`;
+            const response = await scheduleGoogleRequest(async () => {
+              // Skip requests that every caller gave up on while they were waiting in the queue
+              options?.signal?.throwIfAborted();
+              return googleFetch(url, {
+                ...options,
+                headers: { ...options?.headers, Authorization: authorization },
+              });
+            });
+            return googleResponse<T>(response);
+          },
+          { retryOn, signal: options?.signal ?? undefined }
+        );
+      try {
+        return await attempt();
+      } catch (error) {
+        if (!(error instanceof GoogleApiError && error.kind === "auth")) {
+          throw error;
         }
       }
-    } catch {
-      // Ignore invalid JSON
-    }
-  }
-  for (const key of keysToRemove) {
-    localStorage.removeItem(key);
-  }
-}
-purgeCache();
+      // The token was revoked or expired early, try once more with a new one
+      if (!(await refreshToken())) {
+        throw new GoogleApiError("auth", 401, "Unauthorized, please sign in again");
+      }
+      try {
+        return await attempt();
+      } catch (error) {
+        if (error instanceof GoogleApiError && error.kind === "auth") {
+          saveToken(null);
+        }
+        throw error;
+      }
+    },
+    [accessToken, refreshToken, saveToken]
+  );
 
-function GoogleTokenProvider({ children }: { children: React.ReactNode }) {
-  const [token, setToken] = useState<TokenResponse | null>(() => {
-    const oldValue = localStorage.getItem("googleToken");
-    return oldValue ? JSON.parse(oldValue) : null;
-  });
+  // Cache keys of the URLs fetched so far, to find the ones to invalidate after a write
+  const cacheKeys = useRef(new Map<string, string>());
 
   const fetchWithCache = useCallback(
-    async function fetchWithCache(url: URL | RequestInfo, options?: RequestInit) {
+    async function fetchWithCache<T>(url: URL | RequestInfo, options?: RequestInit) {
       const cacheKey = await digestMessage(url.toString() + "V2");
-      return cacheFetch(cacheKey, { ttl: { minutes: 5 } }, async () => {
-        const response = await fetch(url, {
-          ...options,
-          headers: { ...options?.headers, Authorization: `Bearer ${token?.access_token}` },
-        });
-        const data = await response.json();
-        if (response.status === 401) {
-          // Token expired or invalid
-          setToken(null);
-          localStorage.removeItem("googleToken");
-          throw new Error("Unauthorized, please sign in again");
+      cacheKeys.current.set(url.toString(), cacheKey);
+      // The request may be shared with other callers, and is only aborted once they all have
+      const { signal, ...init } = options ?? {};
+      pendingFetches.current++;
+      try {
+        // Failures are thrown before anything is stored, so only successful responses are cached
+        return await cacheFetch(
+          cacheKey,
+          cachePolicy(url.toString()),
+          (shared) => request<T>(url, { ...init, signal: shared }),
+          signal
+        );
+      } finally {
+        pendingFetches.current--;
+        if (revalidated.current && pendingFetches.current === 0) {
+          scheduleRevision();
         }
-        return data;
-      });
+      }
     },
-    [token, setToken]
+    // revision makes consumers fetch again, and get the revalidated responses
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [request, scheduleRevision, revision]
   );
 
-  const handleGoogleAuth = useCallback(
-    async function handleGoogleAuth() {
-      const login_hint = localStorage.getItem("loginHint");
+  const send = useCallback(
+    function send<T>(url: URL | RequestInfo, options?: RequestInit) {
+      return request<T>(
+        url,
+        { ...options, headers: { ...options?.headers, "Content-Type": "application/json" } },
+        // Only rejected requests are safe to repeat, a failed write may still have been saved
+        (error) => error instanceof GoogleApiError && error.kind === "quota"
+      );
+    },
+    [request]
+  );
 
-      const token = await new Promise<TokenResponse>((resolve) => {
-        // @ts-expect-error missing types
-        const tokenClient = google.accounts.oauth2.initTokenClient({
-          client_id: import.meta.env.VITE_GOOGLE_OAUTH_CLIENT_ID,
-          // login_hint,
-          // prompt: login_hint ? "none" : "consent",
-          scope:
-            "profile https://www.googleapis.com/auth/calendar.readonly https://www.googleapis.com/auth/directory.readonly",
-          callback: (tokenResponse: TokenResponse) => {
-            console.log("Token Response", tokenResponse);
-            resolve(tokenResponse);
-          },
-        });
-        tokenClient.requestAccessToken();
-      });
+  const invalidate = useCallback(async function invalidate(calendarId: string) {
+    const path = `/calendars/${encodeURIComponent(calendarId)}/`;
+    await Promise.all(
+      Array.from(cacheKeys.current)
+        .filter(([url]) => url.includes(path))
+        .map(([, key]) => invalidateCache(key))
+    ).catch((error) =>
+      console.warn("Could not invalidate cached responses for", calendarId, error)
+    );
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  const signIn = useCallback(
+    async function signIn(prompt?: "select_account") {
+      const loginHint = prompt ? null : localStorage.getItem("loginHint");
+      const token = await requestGoogleToken({ prompt, loginHint });
 
-      if (!login_hint) {
+      if (!loginHint) {
         const response = await fetch("https://www.googleapis.com/oauth2/v3/userinfo", {
           headers: { Authorization: `Bearer ${token.access_token}` },
         });
         const profile: { email: string } = await response.json();
         localStorage.setItem("loginHint", profile.email);
+        setAccount(profile.email);
       }
 
-      localStorage.setItem("googleToken", JSON.stringify(token));
-      setToken(token);
+      saveToken(token);
+    },
+    [saveToken]
+  );
+
+  // Revokes the token and forgets everything that was loaded for this account
+  const signOut = useCallback(
+    async function signOut() {
+      const token = tokenRef.current;
+      saveToken(null);
+      if (token) {
+        // @ts-expect-error missing types
+        google.accounts.oauth2.revoke(token.access_token, () => {});
+      }
+      localStorage.removeItem("loginHint");
+      localStorage.removeItem(syncSnapshotKey);
+      // Favourites are compared with what this account saw, not the next one
+      localStorage.removeItem("favouriteOfficeDays");
+      localStorage.removeItem("favouritesDigest");
+      setAccount(null);
+      await clearCache().catch((error) => console.warn("Could not clear response cache", error));
+    },
+    [saveToken]
+  );
+
+  const switchAccount = useCallback(
+    async function switchAccount() {
+      // Both start right away, browsers only allow the account chooser straight after a click
+      await Promise.all([signOut(), signIn("select_account")]);
     },
-    [setToken]
+    [signOut, signIn]
   );
 
+  const hasScope = (scope: string) => grantedScopes(token).includes(scope);
+
+  const requestScope = async (scope: string) => {
+    if (hasScope(scope)) {
+      return;
+    }
+    const granted = grantedScopes(tokenRef.current).filter((scope) =>
+      optionalScopes.includes(scope)
+    );
+    saveToken(
+      await requestGoogleToken({
+        loginHint: localStorage.getItem("loginHint"),
+        scopes: [...granted, scope],
+      })
+    );
+  };
+
   if (!token) {
-    return <button onClick={handleGoogleAuth}>Sign in with Google</button>;
+    return (
+      <>
+        {unattended && localStorage.getItem("loginHint") && <p>Signing in again…</p>}
+        <button onClick={() => signIn().catch((error) => console.error("Sign-in failed", error))}>
+          Sign in with Google
+        </button>
+      </>
+    );
   }
   return (
-    <GoogleTokenContext.Provider value={{ fetch: fetchWithCache }}>
+    <GoogleTokenContext.Provider
+      value={{
+        fetch: fetchWithCache,
+        send,
+        account,
+        signOut,
+        switchAccount,
+        invalidate,
+        hasScope,
+        requestScope,
+      }}
+    >
       {children}
     </GoogleTokenContext.Provider>
   );
 }
 
-function Avatar({ name, email, tooltip }: { name: string; email: string; tooltip: string }) {
+// Serves generated data from the fake Google API in place of GoogleTokenProvider. The fake is
+// loaded on demand, so it stays out of the bundle everyone else downloads.
+function DemoTokenProvider({
+  options,
+  children,
+}: {
+  options: DemoOptions;
+  children: React.ReactNode;
+}) {
+  const [api, setApi] = useState<DemoApi | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    import("./demo.ts").then(({ createDemoApi }) => {
+      if (!cancelled) {
+        setApi(createDemoApi(options));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [options]);
+
+  if (!api) {
+    return <p>Loading demo…</p>;
+  }
+  return <DemoApiProvider api={api}>{children}</DemoApiProvider>;
+}
+
+function DemoApiProvider({ api, children }: { api: DemoApi; children: React.ReactNode }) {
+  // Goes through the same error handling and retries as real requests
+  const request = useCallback(
+    function request<T>(
+      url: URL | RequestInfo,
+      init?: RequestInit,
+      retryOn?: (error: unknown) => boolean
+    ): Promise<T> {
+      return withRetry(async () => googleResponse<T>(await api.fetch(url, init)), {
+        retryOn,
+        signal: init?.signal ?? undefined,
+      });
+    },
+    [api]
+  );
+
+  const send = useCallback(
+    function send<T>(url: URL | RequestInfo, init?: RequestInit) {
+      return request<T>(
+        url,
+        init,
+        (error) => error instanceof GoogleApiError && error.kind === "quota"
+      );
+    },
+    [request]
+  );
+
+  // Nothing is cached in the demo, but consumers still fetch again
+  const [revision, setRevision] = useState(0);
+  const fetchDemo = useCallback(
+    function fetchDemo<T>(url: URL | RequestInfo, init?: RequestInit) {
+      return request<T>(url, init);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [request, revision]
+  );
+  const invalidate = useCallback(async function invalidate() {
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  const signOut = useCallback(async function signOut() {
+    leaveDemo();
+    localStorage.removeItem(syncSnapshotKey);
+    localStorage.removeItem("favouriteOfficeDays");
+    localStorage.removeItem("favouritesDigest");
+    window.location.hash = "";
+    window.location.reload();
+  }, []);
+
+  return (
+    <GoogleTokenContext.Provider
+      value={{
+        fetch: fetchDemo,
+        send,
+        account: api.me,
+        signOut,
+        switchAccount: signOut,
+        invalidate,
+        // The fake API serves everything
+        hasScope: () => true,
+        requestScope: async () => {},
+      }}
+    >
+      {children}
+    </GoogleTokenContext.Provider>
+  );
+}
+
+function Avatar({
+  name,
+  email,
+  tooltip,
+  badge,
+}: {
+  name: string;
+  email: string;
+  tooltip: string;
+  badge?: string;
+}) {
+  const { navigate } = useRouter();
   const [hash, setHash] = useState<string | null>(null);
 
   useEffect(() => {
@@ -553,66 +788,256 @@ function Avatar({ name, email, tooltip }: { name: string; email: string; tooltip
           ? `url(https://gravatar.com/avatar/${hash}?d=initials&initials=${initials}&s=64)`
           : undefined,
         backgroundSize: "cover",
+        position: "relative",
+        cursor: "pointer",
       }}
       title={tooltip}
-    />
+      role="link"
+      onClick={() => navigate({ view: "person", email })}
+    >
+      {badge && (
+        <span
+          style={{
+            position: "absolute",
+            right: 0,
+            bottom: 0,
+            padding: "0 0.2em",
+            borderTopLeftRadius: 4,
+            fontSize: "0.7rem",
+            lineHeight: 1.2,
+            fontWeight: "bold",
+            background: "#eee",
+          }}
+        >
+          {badge}
+        </span>
+      )}
+    </div>
+  );
+}
+function AvatarGroup({
+  title,
+  people,
+  state,
+}: {
+  title: string;
+  people: { email: string; name: string; description: string }[];
+  state: State;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: "0.5em",
+        paddingTop: "0.75em",
+      }}
+    >
+      <span
+        style={{
+          opacity: 0.4,
+          textTransform: "uppercase",
+          fontSize: "0.8rem",
+          fontWeight: "800",
+        }}
+      >
+        {title}
+      </span>
+      {people.map(({ name, email, description }) => {
+        return (
+          <div key={email} style={{ opacity: 0.5 }}>
+            <Avatar
+              name={name}
+              email={email}
+              tooltip={`${displayName(name, state.people)} is ${description}`}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Where one person is on each of the days, for links to #/person/<email>
+function PersonDays({
+  email,
+  state,
+  days,
+  closedDays,
+  onClose,
+}: {
+  email: string;
+  state: State;
+  days: Temporal.PlainDate[];
+  closedDays: Map<string, ClosedDay>;
+  onClose: () => void;
+}) {
+  const { timeZone } = useTimeZone();
+  const person = state.people.find((person) => person.email === email);
+  // Someone who was linked to is shown even if they are hidden or outside the group
+  const everyone = { ...state, ignorePeople: new Set<string>(), group: null };
+  const status = state.calendarStatus[email];
+
+  return (
+    <div style={{ textAlign: "left" }}>
+      <button onClick={onClose}>‹ Everyone</button>
+      <h2 style={{ display: "flex", alignItems: "center", gap: "0.5em", marginTop: "1em" }}>
+        <Avatar
+          name={person?.name ?? email}
+          email={email}
+          tooltip={person ? displayName(person.name, state.people) : email}
+        />
+        {person ? person.name : email}
+      </h2>
+      {!person && state.people.length > 0 && (
+        <p>{email} is not in the directory, or not shared with you.</p>
+      )}
+      {typeof status === "object" && <p style={{ color: "#b00" }}>{status.error}</p>}
+      {person && (
+        <ul style={{ listStyle: "none", padding: 0 }}>
+          {days.map((date) => {
+            const closedDay = closedDays.get(date.toString());
+            const { byStatus, elsewhere } = daySummary(everyone, date);
+            const summary = [...Object.values(byStatus), ...elsewhere.values()]
+              .flat()
+              .find((summary) => summary.email === email);
+            return (
+              <li key={date.toString()} style={{ padding: "0.25em 0" }}>
+                <strong>{humanDate(date, today(timeZone))}</strong>{" "}
+                <span style={{ color: "#777" }}>{date.toString()}</span>{" "}
+                {closedDay ? `closed for ${closedDay.name}` : summary?.description ?? "loading…"}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ClosedDaySummary({
+  date,
+  closedDay,
+  opacity = 1,
+}: {
+  date: Temporal.PlainDate;
+  closedDay: ClosedDay;
+  opacity?: number;
+}) {
+  const { timeZone } = useTimeZone();
+  return (
+    <div style={{ opacity }}>
+      <h2>{humanDate(date, today(timeZone))}</h2>
+      <div style={{ color: "#999" }}>
+        {closedDay.kind === "closure" ? "Office closed" : "Public holiday"}: {closedDay.name}
+      </div>
+    </div>
+  );
+}
+
+function MyLocationButtons({
+  location,
+  onChange,
+}: {
+  location: WorkLocation | null;
+  onChange: (location: MyLocation | null) => Promise<void>;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const choices: [MyLocation, string][] = [
+    ["officeLocation", "Office"],
+    ["homeOffice", "Home"],
+    ["away", "Away"],
+  ];
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: "0.5em",
+        paddingTop: "0.75em",
+      }}
+    >
+      <span
+        style={{
+          opacity: 0.4,
+          textTransform: "uppercase",
+          fontSize: "0.8rem",
+          fontWeight: "800",
+        }}
+      >
+        Me
+      </span>
+      {choices.map(([value, label]) => (
+        <button
+          key={value}
+          disabled={saving}
+          aria-pressed={location === value}
+          style={{
+            padding: "0.3em 0.8em",
+            borderColor: location === value ? "#646cff" : undefined,
+          }}
+          onClick={() => {
+            setSaving(true);
+            setError(null);
+            // Pressing the current location again clears it
+            onChange(location === value ? null : value)
+              .catch((error: Error) => setError(error.message))
+              .finally(() => setSaving(false));
+          }}
+        >
+          {label}
+        </button>
+      ))}
+      {error && <div style={{ flexBasis: "100%", color: "#c33" }}>Not saved: {error}</div>}
+    </div>
   );
 }
-function humanDate(date: Temporal.PlainDate): string {
-  if (Temporal.PlainDate.compare(date, Temporal.Now.plainDateISO()) === 0) {
-    return "Today";
-  } else if (Temporal.PlainDate.compare(date, Temporal.Now.plainDateISO().add({ days: 1 })) === 0) {
-    return "Tomorrow";
-  }
-  // Use the name of the day of the week if less than 7 days away
-  else if (Temporal.PlainDate.compare(date, Temporal.Now.plainDateISO().add({ days: 7 })) < 0) {
-    const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-    return dayNames[date.dayOfWeek % 7];
-  }
-
-  return date.toString();
-}
 
 function DateSummary({
   date,
   state,
   showLegend,
+  me,
+  onSelectOffice,
+  onSetMyLocation,
+  capacity,
   opacity = 1,
 }: {
   date: Temporal.PlainDate;
   state: State;
   showLegend: boolean;
+  me: string | null;
+  onSelectOffice: (office: string | null) => void;
+  onSetMyLocation: (date: Temporal.PlainDate, location: MyLocation | null) => Promise<void>;
+  // Desks and rooms to compare the headcount with, if set up
+  capacity: (CapacitySettings & { desks: number; roomSeats: number }) | null;
   opacity?: number;
 }) {
+  const { timeZone } = useTimeZone();
   const entriesForDate = state.events.filter(
     (entry) => entry.date === date.toString() && !state.ignorePeople.has(entry.personEmail)
   );
-  const peopleByEmail = new Map(state.people.map((p) => [p.email, p]));
-  const seenEmails = entriesForDate.map((entry) => entry.personEmail);
-  const missingPeople = state.people.filter(
-    (person) => !seenEmails.includes(person.email) && !state.ignorePeople.has(person.email)
-  );
 
-  const byStatus: Record<string, { email: string; name: string }[]> = {
-    officeLocation: [],
-    homeOffice: [],
-  };
-  for (const entry of entriesForDate) {
-    if (!byStatus[entry.location]) {
-      byStatus[entry.location] = [];
-    }
-    const person = peopleByEmail.get(entry.personEmail);
-    if (!person) continue;
-    byStatus[entry.location].push(person);
-  }
-  for (const person of missingPeople) {
-    if (!byStatus[state.assumedLocation]) {
-      byStatus[state.assumedLocation] = [];
-    }
-    byStatus[state.assumedLocation].push(person);
-  }
+  const { byStatus, elsewhere, loading, failed } = daySummary(state, date);
+
+  // Building IDs with their names, sorted by name
+  const offices = showLegend
+    ? Array.from(officeBuildings(state.events)).sort(([, a], [, b]) => a.localeCompare(b))
+    : [];
 
-  const title = humanDate(date);
+  const myEntries = entriesForDate.filter((entry) => entry.personEmail === me && !entry.start);
+  const myLocation = myEntries.some((entry) => entry.location === "away")
+    ? "away"
+    : myEntries[0]?.location ?? null;
+
+  const title = humanDate(date, today(timeZone));
 
   return (
     <div style={{ opacity }}>
@@ -647,7 +1072,23 @@ function DateSummary({
               fontWeight: "800",
             }}
           >
-            Office
+            {offices.length > 1 ? (
+              <select
+                aria-label="Office"
+                value={state.office ?? ""}
+                onChange={(e) => onSelectOffice(e.target.value || null)}
+                style={{ font: "inherit", textTransform: "inherit" }}
+              >
+                <option value="">Office</option>
+                {offices.map(([office, label]) => (
+                  <option key={office} value={office}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              "Office"
+            )}
           </h2>
         </div>
       ) : (
@@ -665,13 +1106,14 @@ function DateSummary({
         <div
           style={{ display: "flex", flexDirection: "row-reverse", flexWrap: "wrap", gap: "0.5em" }}
         >
-          {byStatus["homeOffice"].map(({ name, email }) => {
+          {byStatus["homeOffice"].map(({ name, email, description, partDay }) => {
             return (
               <Avatar
                 name={name}
                 key={email}
                 email={email}
-                tooltip={`${displayName(name, state.people)} working from home`}
+                tooltip={`${displayName(name, state.people)} is ${description}`}
+                badge={partDay ? "½" : undefined}
               />
             );
           })}
@@ -686,34 +1128,158 @@ function DateSummary({
               TBD
             </>
           )}
+          {loading.length > 0 && (
+            <div style={{ opacity: 0.5, fontSize: "0.8rem" }} title={loading.join(", ")}>
+              {loading.length} loading…
+            </div>
+          )}
+          {failed.length > 0 && (
+            <div style={{ color: "#b00", fontSize: "0.8rem" }} title={failed.join("\n")}>
+              {failed.length} unavailable
+            </div>
+          )}
         </div>
         <div style={{ display: "flex", flexDirection: "row", flexWrap: "wrap", gap: "0.5em" }}>
-          {byStatus["officeLocation"].map(({ name, email }) => {
+          {byStatus["officeLocation"].map(({ name, email, description, partDay }) => {
             return (
               <Avatar
                 name={name}
                 key={email}
                 email={email}
-                tooltip={`${displayName(name, state.people)} is in the office`}
+                tooltip={`${displayName(name, state.people)} is ${description}`}
+                badge={partDay ? "½" : undefined}
               />
             );
           })}
         </div>
       </div>
+      {capacity && (
+        // Facilities plan for everyone, not just the group being looked at
+        <CapacityBar usage={utilisation(daySummary({ ...state, group: null }, date), capacity)} />
+      )}
+      {Array.from(elsewhere.entries()).map(([groupTitle, people]) => (
+        <AvatarGroup key={groupTitle} title={groupTitle} people={people} state={state} />
+      ))}
+      {byStatus["away"].length > 0 && (
+        <AvatarGroup title="Away" people={byStatus["away"]} state={state} />
+      )}
+      {me && state.people.some((person) => person.email === me) && (
+        <MyLocationButtons
+          location={myLocation}
+          onChange={(location) => onSetMyLocation(date, location)}
+        />
+      )}
     </div>
   );
 }
 
-function workingDate(date: Temporal.PlainDate = Temporal.Now.plainDateISO()) {
-  let nextDay = date;
-  if (nextDay.dayOfWeek === 6) {
-    // Saturday, skip to Monday
-    nextDay = nextDay.add({ days: 2 });
-  } else if (nextDay.dayOfWeek === 0) {
-    // Sunday, skip to Monday
-    nextDay = nextDay.add({ days: 1 });
-  }
-  return nextDay;
+function CapacityBar({ usage }: { usage: Utilisation }) {
+  const { confirmed, expected, desks, roomSeats, warning } = usage;
+  const total = Math.max(desks + roomSeats, expected, 1);
+  const colour = warning === "over" ? "#c33" : warning === "rooms" ? "#e90" : "#3a3";
+  return (
+    <div style={{ fontSize: "0.8rem", marginTop: "0.75em", textAlign: "left" }}>
+      <div
+        role="meter"
+        aria-label="Desks in use"
+        aria-valuemin={0}
+        aria-valuemax={desks}
+        aria-valuenow={expected}
+        style={{
+          position: "relative",
+          height: "0.5em",
+          borderRadius: "0.25em",
+          background: "#ddd",
+        }}
+      >
+        <div
+          style={{
+            width: `${(expected / total) * 100}%`,
+            height: "100%",
+            borderRadius: "0.25em",
+            background: colour,
+          }}
+        />
+        {roomSeats > 0 && (
+          // Where the desks end and the meeting rooms begin
+          <div
+            style={{
+              position: "absolute",
+              top: "-0.2em",
+              bottom: "-0.2em",
+              left: `${(desks / total) * 100}%`,
+              borderLeft: "2px solid #666",
+            }}
+          />
+        )}
+      </div>
+      <div style={{ opacity: 0.7 }}>
+        {confirmed} of {desks} desks
+        {expected !== confirmed && `, about ${expected} counting TBD`}
+        {roomSeats > 0 && ` and ${roomSeats} room seats`}
+      </div>
+      {warning && (
+        <div style={{ color: colour }}>
+          {warning === "over"
+            ? `⚠ ${expected - desks - roomSeats} more than there is space for, book overflow space`
+            : `⚠ ${expected - desks} more than there are desks, some will sit in meeting rooms`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function useClosedDays(
+  fetch: FetchFn,
+  settings: HolidaySettings,
+  options: { minDate: Temporal.PlainDate; maxDate: Temporal.PlainDate; timeZone: string }
+): Map<string, ClosedDay> {
+  const [fetched, setFetched] = useState<ClosedDay[]>([]);
+  const { timeZone } = options;
+  const minDate = options.minDate.toString();
+  const maxDate = options.maxDate.toString();
+
+  useEffect(() => {
+    const calendars = [
+      [settings.holidayCalendarId, "holiday"],
+      [settings.closureCalendarId, "closure"],
+    ] as const;
+    let cancelled = false;
+    Promise.all(
+      calendars
+        .filter(([calendarId]) => calendarId)
+        .map(([calendarId, kind]) =>
+          fetchClosedDays(fetch, calendarId, kind, {
+            minDate: Temporal.PlainDate.from(minDate),
+            maxDate: Temporal.PlainDate.from(maxDate),
+            timeZone,
+          }).catch((error) => {
+            console.warn("Could not load closed days from", calendarId, error);
+            return [];
+          })
+        )
+    ).then((results) => {
+      if (!cancelled) {
+        setFetched(results.flat());
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetch, settings.holidayCalendarId, settings.closureCalendarId, minDate, maxDate, timeZone]);
+
+  return useMemo(() => {
+    const bundled = bundledHolidays(
+      settings.country,
+      Temporal.PlainDate.from(minDate),
+      Temporal.PlainDate.from(maxDate)
+    );
+    // Company closures win over holidays falling on the same day
+    const closedDays = [...bundled, ...fetched].sort((a, b) =>
+      a.kind === b.kind ? 0 : a.kind === "closure" ? 1 : -1
+    );
+    return new Map(closedDays.map((closedDay) => [closedDay.date, closedDay]));
+  }, [settings.country, fetched, minDate, maxDate]);
 }
 
 function useDebounce(ms: number, callback: () => void, deps: unknown[]) {
@@ -729,33 +1295,316 @@ function useDebounce(ms: number, callback: () => void, deps: unknown[]) {
   }, [...deps, ms]);
 }
 
-function displayName(name: string, people: { name: string }[]) {
-  let result = name;
+// The current time, updated on every whole minute
+function useNow(timeZone: string): Temporal.ZonedDateTime {
+  const [now, setNow] = useState(() => Temporal.Now.zonedDateTimeISO(timeZone));
 
-  const lastNameInitial = name.split(" ")[1]?.[0];
-  if (people.filter((p) => p.name.split(" ")[0] === name.split(" ")[0]).length === 1) {
-    // If no-one has the same first name, just show first name
-    result = name.split(" ")[0];
-  } else if (
-    // If the first letter of the last name is unique, show first name and first letter of last name
-    lastNameInitial &&
-    people.filter((p) => p.name.split(" ")[1]?.[0] === lastNameInitial).length === 1
-  ) {
-    result = `${name.split(" ")[0]} ${lastNameInitial}.`;
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    const tick = () => {
+      const current = Temporal.Now.zonedDateTimeISO(timeZone);
+      setNow(current);
+      const nextMinute = current.round({ smallestUnit: "minute", roundingMode: "ceil" });
+      // Round up a millisecond past the minute, or the same minute would come again
+      timeout = setTimeout(tick, current.until(nextMinute).total({ unit: "milliseconds" }) + 1);
+    };
+    tick();
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [timeZone]);
+
+  return now;
+}
+
+// Whether the tab is showing, to stop polling in the background
+function usePageVisible(): boolean {
+  const [visible, setVisible] = useState(() => document.visibilityState === "visible");
+
+  useEffect(() => {
+    const update = () => setVisible(document.visibilityState === "visible");
+    document.addEventListener("visibilitychange", update);
+    return () => {
+      document.removeEventListener("visibilitychange", update);
+    };
+  }, []);
+
+  return visible;
+}
+
+// Counts up every interval while the tab is showing, for effects that load data again. Bumped to
+// load again once cached responses are out of date.
+function usePoll(interval: number): { poll: number; visible: boolean } {
+  const visible = usePageVisible();
+  const [poll, setPoll] = useState(0);
+
+  useEffect(() => {
+    if (!visible) return;
+    const timer = setInterval(() => setPoll((poll) => poll + 1), interval);
+    return () => {
+      clearInterval(timer);
+    };
+  }, [visible, interval]);
+
+  return { poll, visible };
+}
+
+// Keeps the screen on while the tab is showing. Browsers let go of the lock when it is hidden.
+function useWakeLock() {
+  const visible = usePageVisible();
+
+  useEffect(() => {
+    if (!visible || !("wakeLock" in navigator)) return;
+    let released = false;
+    let sentinel: WakeLockSentinel | null = null;
+    navigator.wakeLock.request("screen").then(
+      (lock) => {
+        if (released) {
+          lock.release();
+        } else {
+          sentinel = lock;
+        }
+      },
+      (error) => console.warn("Could not keep the screen on", error)
+    );
+    return () => {
+      released = true;
+      sentinel?.release();
+    };
+  }, [visible]);
+}
+
+function GroupSettings({
+  state,
+  dispatch,
+  people,
+  me,
+}: {
+  state: State;
+  dispatch: React.Dispatch<Action>;
+  people: State["people"];
+  me: string | null;
+}) {
+  const { fetch, requestScope } = useGoogleToken();
+  const [editing, setEditing] = useState<string | null>(state.groups[0]?.id ?? null);
+  const [newName, setNewName] = useState("");
+  const [googleGroups, setGoogleGroups] = useState<{ email: string; name: string }[] | null>(null);
+  const [googleGroup, setGoogleGroup] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editingGroup = state.groups.find((group) => group.id === editing);
+
+  const importGroup = async (email: string, name: string, id: string = crypto.randomUUID()) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await requestScope(groupsScope);
+      const members = await fetchGoogleGroupMembers(fetch, email);
+      dispatch({ type: "SAVE_GROUP", group: { id, name, members, googleGroup: email } });
+      setEditing(id);
+    } catch (error) {
+      console.error("Could not import group", email, error);
+      setError(errorDescription(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.5em" }}>
+      <div>Groups</div>
+      {state.groups.map((group) => (
+        <div key={group.id} style={{ display: "flex", gap: "0.5em", alignItems: "center" }}>
+          <label style={{ display: "flex", gap: "0.25em", alignItems: "center" }}>
+            <input
+              type="radio"
+              name="editingGroup"
+              checked={editing === group.id}
+              onChange={() => setEditing(group.id)}
+            />
+            {group.name} ({group.members.length})
+          </label>
+          {group.googleGroup && (
+            <button
+              type="button"
+              disabled={busy}
+              title={`Import the members of ${group.googleGroup} again`}
+              onClick={() => importGroup(group.googleGroup!, group.name, group.id)}
+            >
+              Refresh
+            </button>
+          )}
+          <button type="button" onClick={() => dispatch({ type: "REMOVE_GROUP", id: group.id })}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: "0.5em" }}>
+        <input
+          type="text"
+          placeholder="New group"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button
+          type="button"
+          disabled={!newName.trim()}
+          onClick={() => {
+            const id = crypto.randomUUID();
+            dispatch({ type: "SAVE_GROUP", group: { id, name: newName.trim(), members: [] } });
+            setEditing(id);
+            setNewName("");
+          }}
+        >
+          Add
+        </button>
+      </div>
+      <div style={{ display: "flex", gap: "0.5em", flexWrap: "wrap" }}>
+        {googleGroups === null ? (
+          <button
+            type="button"
+            disabled={busy || !me}
+            onClick={async () => {
+              setBusy(true);
+              setError(null);
+              try {
+                await requestScope(groupsScope);
+                setGoogleGroups(await fetchGoogleGroups(fetch, me!));
+              } catch (error) {
+                console.error("Could not load Google Groups", error);
+                setError(errorDescription(error));
+              } finally {
+                setBusy(false);
+              }
+            }}
+          >
+            Import from Google Groups
+          </button>
+        ) : (
+          <>
+            <select
+              aria-label="Google Group"
+              value={googleGroup}
+              onChange={(e) => setGoogleGroup(e.target.value)}
+            >
+              <option value="">
+                {googleGroups.length === 0 ? "You are not in any groups" : "Pick a group"}
+              </option>
+              {googleGroups.map(({ email, name }) => (
+                <option key={email} value={email}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={busy || !googleGroup}
+              onClick={() =>
+                importGroup(
+                  googleGroup,
+                  googleGroups.find(({ email }) => email === googleGroup)?.name ?? googleGroup
+                )
+              }
+            >
+              Import
+            </button>
+          </>
+        )}
+      </div>
+      {error && <div style={{ color: "#b00", fontSize: "0.9rem" }}>{error}</div>}
+      {editingGroup && !editingGroup.googleGroup && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(8rem, 1fr))",
+            columnGap: "0.5em",
+            width: "max(8rem, min(75vw, 32rem))",
+          }}
+        >
+          <div style={{ gridColumn: "1 / -1" }}>People in {editingGroup.name}</div>
+          {people.map(({ name, email }) => (
+            <label
+              key={email}
+              style={{ display: "flex", alignItems: "center", gap: "0.25em", padding: "0.25em 0" }}
+            >
+              <input
+                type="checkbox"
+                checked={editingGroup.members.includes(email)}
+                onChange={(e) =>
+                  dispatch({
+                    type: "UPDATE_GROUP_MEMBER",
+                    id: editingGroup.id,
+                    email,
+                    member: e.target.checked,
+                  })
+                }
+              />
+              {displayName(name, state.people)}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Shows a browser notification when the user has allowed them, and tells whether it did
+function notify(title: string, body?: string): boolean {
+  if (!("Notification" in window) || Notification.permission !== "granted") {
+    return false;
   }
+  new Notification(title, { body, icon: "/favicon.ico" });
+  return true;
+}
 
-  return result;
+// "today", "tomorrow" or "on Tuesday"
+function onDay(date: Temporal.PlainDate, timeZone: string): string {
+  const day = humanDate(date, today(timeZone));
+  return day === "Today" || day === "Tomorrow" ? day.toLowerCase() : `on ${day}`;
 }
 
 function Hoozin() {
-  const { fetch } = useGoogleToken();
-  const [state, dispatch] = useReducer(stateReducer, {
-    events: [],
-    ignorePeople: ignorePeople(localStorage.getItem("ignorePeople")),
-    assumedLocation: workLocation(localStorage.getItem("preferredLocation")),
-    people: [],
+  const { fetch, send, invalidate, account: me, hasScope } = useGoogleToken();
+  const directory = hasScope(roomsScope);
+  const { timeZone, setTimeZone } = useTimeZone();
+  const [state, dispatch] = useReducer(stateReducer, null, (): State => {
+    const { people, events, syncTokens } = syncSnapshot(localStorage.getItem(syncSnapshotKey));
+    return {
+      events,
+      ignorePeople: ignorePeople(localStorage.getItem("ignorePeople")),
+      groups: groups(localStorage.getItem("groups")),
+      group: localStorage.getItem("selectedGroup"),
+      assumedLocation: workLocation(localStorage.getItem("preferredLocation")),
+      office: localStorage.getItem("selectedOffice"),
+      calendarStatus: {},
+      people,
+      syncTokens,
+    };
   });
 
+  // Sync tokens are only valid together with the data they were issued for, so they are saved
+  // as one snapshot and read through a ref to always resume from the latest one
+  const knownRef = useRef<SyncSnapshot>(state);
+  useEffect(() => {
+    knownRef.current = state;
+  }, [state]);
+
+  useDebounce(
+    1000,
+    () => {
+      const { people, events, syncTokens } = state;
+      try {
+        localStorage.setItem(syncSnapshotKey, JSON.stringify({ people, events, syncTokens }));
+      } catch (error) {
+        // Without a snapshot the next load does a full sync
+        console.warn("Could not save sync snapshot", error);
+        localStorage.removeItem(syncSnapshotKey);
+      }
+    },
+    [state.people, state.events, state.syncTokens]
+  );
+
   useDebounce(
     1000,
     () => {
@@ -764,6 +1613,18 @@ function Hoozin() {
     [state.assumedLocation]
   );
 
+  useDebounce(
+    1000,
+    () => {
+      if (state.office) {
+        localStorage.setItem("selectedOffice", state.office);
+      } else {
+        localStorage.removeItem("selectedOffice");
+      }
+    },
+    [state.office]
+  );
+
   useDebounce(
     1000,
     () => {
@@ -772,22 +1633,256 @@ function Hoozin() {
     [state.ignorePeople]
   );
 
-  const days = useMemo(() => {
-    const days: Temporal.PlainDate[] = [workingDate()];
-    while (days.length < 5) {
-      days.unshift(workingDate(days[0].add({ days: 1 })));
+  useDebounce(
+    1000,
+    () => {
+      localStorage.setItem("groups", JSON.stringify(state.groups));
+      if (state.group) {
+        localStorage.setItem("selectedGroup", state.group);
+      } else {
+        localStorage.removeItem("selectedGroup");
+      }
+    },
+    [state.groups, state.group]
+  );
+
+  const [favourites, setFavourites] = useState(() =>
+    favouritesSetting(localStorage.getItem("favourites"))
+  );
+
+  useDebounce(
+    1000,
+    () => {
+      localStorage.setItem("favourites", JSON.stringify(Array.from(favourites)));
+    },
+    [favourites]
+  );
+
+  const [notificationPermission, setNotificationPermission] = useState(() =>
+    "Notification" in window ? Notification.permission : null
+  );
+
+  // New office days of favourites that overlap with the user's, until dismissed
+  const [overlaps, setOverlaps] = useState<{ email: string; date: string }[]>([]);
+
+  const favouritesToday = useMemo(() => {
+    const todayString = today(timeZone).toString();
+    const days = officeDays(state, favourites);
+    return state.people
+      .filter(({ email }) => favourites.has(email) && days[email].includes(todayString))
+      .map(({ name }) => displayName(name, state.people));
+    // Only the events and people change what is in the digest
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [state.events, state.people, favourites, timeZone]);
+  const favouritesLoaded =
+    favourites.size > 0 &&
+    state.people
+      .filter(({ email }) => favourites.has(email))
+      .every(({ email }) => state.calendarStatus[email] === "loaded");
+
+  // The morning digest is sent as a notification once a day, and shown in the app all day
+  useEffect(() => {
+    const todayString = today(timeZone).toString();
+    if (!favouritesLoaded || localStorage.getItem("favouritesDigest") === todayString) return;
+    const text = digest(favouritesToday, "today");
+    if (text) {
+      notify(text);
     }
-    days.reverse();
+    localStorage.setItem("favouritesDigest", todayString);
+  }, [favouritesToday, favouritesLoaded, timeZone]);
 
-    return days;
-  }, []);
+  const { route, navigate } = useRouter();
+  // The week stays in place while settings or a person are shown
+  const [hoozinRoute, setHoozinRoute] = useState<Route & { view: "hoozin" }>(() =>
+    route.view === "hoozin" ? route : { view: "hoozin", date: null }
+  );
+
+  useEffect(() => {
+    if (route.view === "hoozin") {
+      setHoozinRoute(route);
+    }
+  }, [route]);
+
+  // A link picks the office, without one the user's own choice is put in the link to share it
+  useEffect(() => {
+    if (route.view !== "hoozin") return;
+    if (route.office === undefined) {
+      if (state.office) {
+        navigate({ ...route, office: state.office }, { replace: true });
+      }
+    } else if (route.office !== state.office) {
+      dispatch({ type: "UPDATE_SELECTED_OFFICE", office: route.office });
+    }
+    // Only a new route decides, the office picker updates both
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route]);
+  const setOffice = (office: string | null) => {
+    dispatch({ type: "UPDATE_SELECTED_OFFICE", office });
+    navigate({ ...hoozinRoute, office: office ?? undefined }, { replace: true });
+  };
+
+  // First day being looked at, a Monday after paging by week, or null to start from today. Kept
+  // as the same object while it stays, as every hashchange parses a new one.
+  const weekString = hoozinRoute.date?.toString() ?? null;
+  const week = useMemo(
+    () => (weekString ? Temporal.PlainDate.from(weekString) : null),
+    [weekString]
+  );
+  const setWeek = (date: Temporal.PlainDate | null) => navigate({ ...hoozinRoute, date });
+  const [storedHorizon, setStoredHorizon] = useState(() =>
+    horizonWeeks(localStorage.getItem("horizonWeeks"))
+  );
+  // Links may ask for a number of weeks, the last one picked is used otherwise
+  const horizon = hoozinRoute.weeks ?? storedHorizon;
+  const setHorizon = (weeks: 1 | 2 | 4) => {
+    setStoredHorizon(weeks);
+    navigate({ ...hoozinRoute, weeks }, { replace: true });
+  };
+
+  useDebounce(
+    1000,
+    () => {
+      localStorage.setItem("horizonWeeks", storedHorizon.toString());
+    },
+    [storedHorizon]
+  );
+
+  const changeWeek = (weeks: number) => {
+    const thisWeek = startOfWeek(today(timeZone));
+    const newWeek = startOfWeek(week ?? thisWeek).add({ weeks });
+    setWeek(newWeek.equals(thisWeek) ? null : newWeek);
+  };
+
+  const [holidays, setHolidays] = useState(() =>
+    holidaySettings(localStorage.getItem("holidaySettings"), timeZone)
+  );
+
+  useDebounce(
+    1000,
+    () => {
+      localStorage.setItem("holidaySettings", JSON.stringify(holidays));
+    },
+    [holidays]
+  );
+
+  const [capacity, setCapacity] = useState(() =>
+    capacitySettings(localStorage.getItem("capacity"))
+  );
+
+  useDebounce(
+    1000,
+    () => {
+      localStorage.setItem("capacity", JSON.stringify(capacity));
+    },
+    [capacity]
+  );
+
+  // Seats in the meeting rooms, for when they are not set by hand
+  const [roomSeats, setRoomSeats] = useState<number | null>(null);
+  const countRoomSeats = capacity.desks !== null && capacity.roomSeats === null;
+
+  useEffect(() => {
+    if (!countRoomSeats) return;
+    let cancelled = false;
+    fetchRooms(fetch, { directory })
+      .then((rooms) => {
+        if (!cancelled) {
+          setRoomSeats(rooms.reduce((sum, room) => sum + (room.maxAttendance ?? 0), 0));
+        }
+      })
+      .catch((error) => console.warn("Could not count room seats", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [fetch, directory, countRoomSeats]);
+
+  const start = week ?? today(timeZone);
+  // The window begins at the first working day, which a weekend or closed days at the start can
+  // put days later, so look a week further ahead. Closed days after it stay in the window.
+  const closedDays = useClosedDays(fetch, holidays, {
+    minDate: start,
+    maxDate: start.add({ weeks: horizon + 1 }),
+    timeZone,
+  });
+
+  // Closed days are loaded again whenever fetch changes, the window only changes with its dates
+  const dayList = workingDays(start, horizon * 5, (date) => closedDays.has(date.toString())).join();
+  const days = useMemo(
+    () => (dayList ? dayList.split(",").map((date) => Temporal.PlainDate.from(date)) : []),
+    [dayList]
+  );
+
+  // Compares the office days of favourites whose calendars are complete with the ones seen last
+  // time, then remembers them along with the dates shown. Only dates seen before can have new
+  // office days, the first time someone or some week is seen nothing counts as added.
+  useDebounce(
+    1000,
+    () => {
+      if (!me || state.calendarStatus[me] !== "loaded") return;
+      const loaded = Array.from(favourites).filter(
+        (email) => state.calendarStatus[email] === "loaded"
+      );
+      if (loaded.length === 0 || days.length === 0) return;
+      const todayString = today(timeZone).toString();
+      const loadedDates: string[] = [];
+      for (let date = days[0]; Temporal.PlainDate.compare(date, days[days.length - 1]) <= 0; ) {
+        loadedDates.push(date.toString());
+        date = date.add({ days: 1 });
+      }
+      const lastSeen = officeDaysSnapshot(localStorage.getItem("favouriteOfficeDays"));
+      const current = officeDays(state, loaded);
+      const added = newOverlaps(lastSeen, current, officeDays(state, [me])[me], todayString);
+      const seen = seenOfficeDays(lastSeen, current, loadedDates, todayString);
+      localStorage.setItem(
+        "favouriteOfficeDays",
+        JSON.stringify(
+          Object.fromEntries(Object.entries(seen).filter(([email]) => favourites.has(email)))
+        )
+      );
+      if (added.length === 0) return;
+
+      setOverlaps((overlaps) => [...overlaps, ...added]);
+      for (const { email, date } of added) {
+        const person = state.people.find((person) => person.email === email);
+        notify(
+          `${person ? displayName(person.name, state.people) : email} will be in the office`,
+          `You are both in ${onDay(Temporal.PlainDate.from(date), timeZone)}`
+        );
+      }
+    },
+    [state.events, state.calendarStatus, favourites, me, timeZone, days]
+  );
 
-  const [showSettings, setShowSettings] = useState(false);
+  const showSettings = route.view === "settings";
+  const setShowSettings = (show: boolean) => navigate(show ? { view: "settings" } : hoozinRoute);
+
+  const calendarStatuses = Object.values(state.calendarStatus);
+  const loadedCalendars = calendarStatuses.filter((status) => status === "loaded").length;
+  const failedCalendars = calendarStatuses.filter((status) => typeof status === "object").length;
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Bumped to load everything again after a failure
+  const [attempt, setAttempt] = useState(0);
 
   useEffect(() => {
     if (days.length === 0) return;
-    fetchHoozinData(fetch, dispatch, { minDate: days[0], maxDate: days[days.length - 1] });
-  }, [days, fetch, dispatch]);
+    const controller = new AbortController();
+    setLoadError(null);
+    fetchHoozinData(fetch, dispatch, {
+      minDate: days[0],
+      maxDate: days[days.length - 1],
+      timeZone,
+      known: knownRef.current,
+      signal: controller.signal,
+    }).catch((error) => {
+      if (!controller.signal.aborted) {
+        console.error("Could not load Hoozin data", error);
+        setLoadError(errorDescription(error));
+      }
+    });
+    return () => {
+      controller.abort();
+    };
+  }, [days, timeZone, fetch, dispatch, attempt]);
 
   const lazilySortedPeople = useMemo(
     () =>
@@ -861,23 +1956,129 @@ function Hoozin() {
                 />
                 in the office
               </label>
-              <label style={{ display: "flex", gap: "0.25em", alignItems: "center" }}>
+              <label style={{ display: "flex", gap: "0.25em", alignItems: "center" }}>
+                <input
+                  type="radio"
+                  name="assumedLocation"
+                  value="homeOffice"
+                  checked={state.assumedLocation === "homeOffice"}
+                  onChange={() =>
+                    dispatch({
+                      type: "UPDATE_PREFERRED_LOCATION",
+                      location: "homeOffice",
+                    })
+                  }
+                />
+                working remotely
+              </label>
+            </div>
+          </label>
+          <label style={{ display: "block" }}>
+            <div>Time zone</div>
+            <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+              {Array.from(new Set([timeZone, ...Intl.supportedValuesOf("timeZone")]))
+                .sort()
+                .map((value) => (
+                  <option key={value} value={value}>
+                    {value.replace(/_/g, " ")}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label style={{ display: "block" }}>
+            <div>Public holidays</div>
+            <select
+              value={holidays.country}
+              onChange={(e) => setHolidays({ ...holidays, country: e.target.value })}
+            >
+              <option value="">None</option>
+              {Object.entries(holidayRules).map(([country, { name }]) => (
+                <option key={country} value={country}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={{ display: "block" }}>
+            <div>Holiday calendar ID</div>
+            <input
+              type="text"
+              defaultValue={holidays.holidayCalendarId}
+              placeholder="en.norwegian#holiday@group.v.calendar.google.com"
+              onBlur={(e) => setHolidays({ ...holidays, holidayCalendarId: e.target.value.trim() })}
+              style={{ width: "min(75vw, 24rem)" }}
+            />
+          </label>
+          <label style={{ display: "block" }}>
+            <div>Company closure calendar ID</div>
+            <input
+              type="text"
+              defaultValue={holidays.closureCalendarId}
+              onBlur={(e) => setHolidays({ ...holidays, closureCalendarId: e.target.value.trim() })}
+              style={{ width: "min(75vw, 24rem)" }}
+            />
+          </label>
+          <div>
+            <div>Office capacity</div>
+            <div style={{ display: "flex", gap: "0.75em", flexFlow: "row wrap" }}>
+              <label>
+                <input
+                  type="number"
+                  min={0}
+                  defaultValue={capacity.desks ?? ""}
+                  onBlur={(e) =>
+                    setCapacity({
+                      ...capacity,
+                      desks:
+                        e.target.value === ""
+                          ? null
+                          : Math.max(0, Math.round(e.target.valueAsNumber)),
+                    })
+                  }
+                  style={{ width: "5em" }}
+                />{" "}
+                desks
+              </label>
+              <label>
                 <input
-                  type="radio"
-                  name="assumedLocation"
-                  value="homeOffice"
-                  checked={state.assumedLocation === "homeOffice"}
-                  onChange={() =>
-                    dispatch({
-                      type: "UPDATE_PREFERRED_LOCATION",
-                      location: "homeOffice",
+                  type="number"
+                  min={0}
+                  defaultValue={capacity.roomSeats ?? ""}
+                  placeholder={roomSeats?.toString()}
+                  onBlur={(e) =>
+                    setCapacity({
+                      ...capacity,
+                      roomSeats:
+                        e.target.value === ""
+                          ? null
+                          : Math.max(0, Math.round(e.target.valueAsNumber)),
                     })
                   }
-                />
-                working remotely
+                  style={{ width: "5em" }}
+                />{" "}
+                meeting room seats
+              </label>
+              <label>
+                counting{" "}
+                <select
+                  value={capacity.tbdProbability}
+                  onChange={(e) =>
+                    setCapacity({ ...capacity, tbdProbability: Number(e.target.value) })
+                  }
+                >
+                  {[0, 0.25, 0.5, 0.75, 1].map((probability) => (
+                    <option key={probability} value={probability}>
+                      {probability * 100}%
+                    </option>
+                  ))}
+                </select>{" "}
+                of TBD people
               </label>
             </div>
-          </label>
+            <div style={{ fontSize: "0.9rem", color: "#666" }}>
+              Leave the room seats empty to count them from the room names.
+            </div>
+          </div>
           <div
             style={{
               display: "grid",
@@ -915,6 +2116,22 @@ function Hoozin() {
                       }}
                     />
                     {displayName(name, state.people)}
+                    <button
+                      type="button"
+                      aria-pressed={favourites.has(email)}
+                      aria-label={`Favourite ${name}`}
+                      title="Tell me when they are in the office on the same days as me"
+                      onClick={() => {
+                        const updated = new Set(favourites);
+                        if (!updated.delete(email)) {
+                          updated.add(email);
+                        }
+                        setFavourites(updated);
+                      }}
+                      style={{ padding: "0 0.25em", border: "none", background: "none" }}
+                    >
+                      {favourites.has(email) ? "★" : "☆"}
+                    </button>
                   </label>
                 </div>
               );
@@ -923,7 +2140,19 @@ function Hoozin() {
               Intended to hide employees at other companies that happen to have an account in your
               Google Workspace.
             </div>
+            <div style={{ gridColumn: "1 / -1", fontSize: "0.9rem", color: "#666" }}>
+              Star favourites to hear when they add an office day you are in as well.{" "}
+              {notificationPermission === "default" && (
+                <button
+                  type="button"
+                  onClick={() => Notification.requestPermission().then(setNotificationPermission)}
+                >
+                  Enable notifications
+                </button>
+              )}
+            </div>
           </div>
+          <GroupSettings state={state} dispatch={dispatch} people={lazilySortedPeople} me={me} />
           <button style={{ alignSelf: "flex-end" }}>Save and close</button>
         </form>
       </dialog>
@@ -937,162 +2166,903 @@ function Hoozin() {
           paddingTop: "5rem",
         }}
       >
-        {days.map((date, index) => (
-          <DateSummary
-            key={date.toString()}
-            date={date}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "center",
+            alignItems: "center",
+            flexWrap: "wrap",
+            gap: "0.5em",
+          }}
+        >
+          <button onClick={() => changeWeek(-1)}>‹ Previous</button>
+          <button disabled={!week} onClick={() => setWeek(null)}>
+            Today
+          </button>
+          <button onClick={() => changeWeek(1)}>Next ›</button>
+          <select
+            aria-label="Weeks to show"
+            value={horizon}
+            onChange={(e) => setHorizon(horizonWeeks(e.target.value))}
+          >
+            <option value={1}>1 week</option>
+            <option value={2}>2 weeks</option>
+            <option value={4}>4 weeks</option>
+          </select>
+          {state.groups.length > 0 && (
+            <select
+              aria-label="Group"
+              value={state.group ?? ""}
+              onChange={(e) => dispatch({ type: "SELECT_GROUP", id: e.target.value || null })}
+            >
+              {[{ id: "", name: "Everyone" }, ...state.groups].map(({ id, name }) => {
+                // Headcount in the office on the first day shown
+                const { byStatus } = daySummary({ ...state, group: id || null }, days[0]);
+                return (
+                  <option key={id} value={id}>
+                    {name} ({byStatus.officeLocation.length} in)
+                  </option>
+                );
+              })}
+            </select>
+          )}
+          {digest(favouritesToday, "today") && days[0].equals(today(timeZone)) && (
+            <div style={{ flexBasis: "100%" }}>☀️ {digest(favouritesToday, "today")}</div>
+          )}
+          {overlaps.length > 0 && (
+            <div
+              role="status"
+              style={{
+                flexBasis: "100%",
+                padding: "0.5em 1em",
+                borderRadius: "0.5em",
+                background: "#fff3c4",
+                color: "#333",
+              }}
+            >
+              {overlaps.map(({ email, date }) => {
+                const person = state.people.find((person) => person.email === email);
+                return (
+                  <div key={`${email} ${date}`}>
+                    ★ {person ? displayName(person.name, state.people) : email} will be in the
+                    office {onDay(Temporal.PlainDate.from(date), timeZone)} too
+                  </div>
+                );
+              })}
+              <button onClick={() => setOverlaps([])}>Dismiss</button>
+            </div>
+          )}
+          {loadedCalendars + failedCalendars < calendarStatuses.length && (
+            <div style={{ flexBasis: "100%", fontSize: "0.9rem", color: "#777" }}>
+              <progress value={loadedCalendars} max={calendarStatuses.length} /> Loaded{" "}
+              {loadedCalendars}/{calendarStatuses.length} calendars
+            </div>
+          )}
+          {(loadError || failedCalendars > 0) && (
+            <div style={{ flexBasis: "100%", fontSize: "0.9rem", color: "#b00" }}>
+              {loadError
+                ? `Could not load the directory: ${loadError}`
+                : `Could not load ${failedCalendars} of ${calendarStatuses.length} calendars`}{" "}
+              <button onClick={() => setAttempt((attempt) => attempt + 1)}>Try again</button>
+            </div>
+          )}
+        </div>
+        {route.view === "person" && (
+          <PersonDays
+            email={route.email}
             state={state}
-            showLegend={index === 0}
-            opacity={(6 - index) / 6}
+            days={days}
+            closedDays={closedDays}
+            onClose={() => navigate(hoozinRoute)}
           />
-        ))}
+        )}
+        {route.view !== "person" &&
+          days.map((date, index) => {
+            const closedDay = closedDays.get(date.toString());
+            const opacity = Math.max(1 / 3, (6 - index) / 6);
+            if (closedDay) {
+              return (
+                <ClosedDaySummary
+                  key={date.toString()}
+                  date={date}
+                  closedDay={closedDay}
+                  opacity={opacity}
+                />
+              );
+            }
+            return (
+              <DateSummary
+                key={date.toString()}
+                date={date}
+                state={state}
+                showLegend={index === 0}
+                me={me}
+                onSelectOffice={setOffice}
+                onSetMyLocation={async (date, location) => {
+                  await updateMyLocation(send, dispatch, {
+                    email: me!,
+                    date,
+                    location,
+                    events: state.events,
+                    office: state.office,
+                    timeZone,
+                  });
+                  // A cached response for the window would bring the old location back
+                  await invalidate(me!);
+                }}
+                capacity={
+                  capacity.desks === null
+                    ? null
+                    : {
+                        ...capacity,
+                        desks: capacity.desks,
+                        roomSeats: capacity.roomSeats ?? roomSeats ?? 0,
+                      }
+                }
+                opacity={opacity}
+              />
+            );
+          })}
       </div>
     </>
   );
 }
 
 function Wazzap() {
-  const { fetch } = useGoogleToken();
+  const { route, navigate } = useRouter();
+  const { hasScope, requestScope } = useGoogleToken();
+  const [storedView, setStoredView] = useState(() =>
+    localStorage.getItem("wazzapView") === "timeline" ? "timeline" : "cards"
+  );
+  const view = (route.view === "wazzap" && route.layout) || storedView;
+  const setView = (view: "cards" | "timeline") => {
+    setStoredView(view);
+    navigate({ view: "wazzap", room: null, layout: view });
+  };
+
+  useEffect(() => {
+    localStorage.setItem("wazzapView", storedView);
+  }, [storedView]);
+
+  return (
+    <div>
+      <RoomSearch />
+      <div style={{ display: "flex", gap: "0.5em", paddingTop: "2rem" }}>
+        <button disabled={view === "cards"} onClick={() => setView("cards")}>
+          Next up
+        </button>
+        <button disabled={view === "timeline"} onClick={() => setView("timeline")}>
+          Timeline
+        </button>
+        {!hasScope(roomsScope) && (
+          <button
+            title="Reads the rooms from the Admin Directory, which your Google Workspace may not allow"
+            onClick={() =>
+              requestScope(roomsScope).catch((error) =>
+                console.error("Could not get access to the room directory", error)
+              )
+            }
+          >
+            Show building, floor and features
+          </button>
+        )}
+      </div>
+      {view === "timeline" ? <RoomTimeline /> : <RoomCards />}
+    </div>
+  );
+}
+
+// Each room's next two bookings, and whether it is free now
+function RoomCards() {
+  const { fetch, hasScope } = useGoogleToken();
+  const directory = hasScope(roomsScope);
+  const { timeZone } = useTimeZone();
 
   const [rooms, setRooms] = useState<RoomInformation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const now = useNow(timeZone);
+  const { poll, visible } = usePoll(roomRefreshInterval);
 
   useEffect(() => {
-    fetchWazzupData(fetch).then((data) => {
-      console.log("Wazzup data", data);
-      setRooms(data);
-    });
-  }, [fetch]);
+    // Coming back to the tab loads right away, from the cache if it is still fresh
+    if (!visible) return;
+    let cancelled = false;
+    fetchWazzupData(fetch, timeZone, { directory }).then(
+      (data) => {
+        if (cancelled) return;
+        console.log("Wazzup data", data);
+        setRooms(data);
+        setError(null);
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error("Could not load rooms", error);
+        setError(errorDescription(error));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [fetch, directory, timeZone, visible, poll]);
 
   return (
     <div>
       <div className="room-list">
-        {rooms.length === 0 ? (
+        {error && (
+          <div style={{ gridColumn: "1 / span 2", color: "#b00" }}>
+            {rooms.length === 0 ? "Could not load rooms" : "Could not refresh rooms"}: {error}
+          </div>
+        )}
+        {error && rooms.length === 0 ? null : rooms.length === 0 ? (
           <div style={{ gridColumn: "1 / span 2" }}>Loading...</div>
         ) : (
-          rooms.map((room) => {
-            const [nextEvent, secondEvent] = room.events;
-
-            let roomDetails = (
-              <>
-                {nextEvent ? (
-                  <div>
-                    <strong>Next:</strong> {nextEvent.title}{" "}
-                    {nextEvent.start.toLocaleString(undefined, {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}{" "}
-                    -{" "}
-                    {nextEvent.end.toLocaleString(undefined, {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
-                  </div>
-                ) : (
-                  <div>No upcoming events</div>
-                )}
-                {secondEvent && (
-                  <div style={{ color: "#666" }}>
-                    <strong>Then:</strong> {secondEvent.title}{" "}
-                    {secondEvent.start.toLocaleString(undefined, {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}{" "}
-                    -{" "}
-                    {secondEvent.end.toLocaleString(undefined, {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })}
-                  </div>
-                )}
-              </>
-            );
-            if (nextEvent.start.toPlainDate().equals(Temporal.Now.plainDateISO()) === false) {
-              roomDetails = (
-                <div>
-                  <span style={{ fontSize: "1.25rem" }}>No more events today</span>
-                  {nextEvent && (
-                    <div style={{ color: "#999" }}>
-                      <strong>
-                        {humanDate(nextEvent.start.toPlainDate())} at{" "}
+          roomGroups(rooms).map(({ title, rooms }) => (
+            <Fragment key={title}>
+              {title && <h3 style={{ gridColumn: "1 / -1", margin: 0 }}>{title}</h3>}
+              {rooms.map((room) => {
+                const [nextEvent, secondEvent] = room.events;
+
+                let roomDetails = (
+                  <>
+                    {nextEvent ? (
+                      <div>
+                        <strong>Next:</strong> {nextEvent.title}{" "}
                         {nextEvent.start.toLocaleString(undefined, {
                           hour: "2-digit",
                           minute: "2-digit",
+                        })}{" "}
+                        -{" "}
+                        {nextEvent.end.toLocaleString(undefined, {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </div>
+                    ) : (
+                      <div>No upcoming events</div>
+                    )}
+                    {secondEvent && (
+                      <div style={{ color: "#666" }}>
+                        <strong>Then:</strong> {secondEvent.title}{" "}
+                        {secondEvent.start.toLocaleString(undefined, {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}{" "}
+                        -{" "}
+                        {secondEvent.end.toLocaleString(undefined, {
+                          hour: "2-digit",
+                          minute: "2-digit",
                         })}
-                        :
-                      </strong>{" "}
-                      {nextEvent.title}{" "}
+                      </div>
+                    )}
+                  </>
+                );
+                if (room.error) {
+                  roomDetails = <div style={{ color: "#b00" }}>{room.error}</div>;
+                } else if (nextEvent && !nextEvent.start.toPlainDate().equals(now.toPlainDate())) {
+                  roomDetails = (
+                    <div>
+                      <span style={{ fontSize: "1.25rem" }}>No more events today</span>
+                      {nextEvent && (
+                        <div style={{ color: "#999" }}>
+                          <strong>
+                            {humanDate(nextEvent.start.toPlainDate(), today(timeZone))} at{" "}
+                            {nextEvent.start.toLocaleString(undefined, {
+                              hour: "2-digit",
+                              minute: "2-digit",
+                            })}
+                            :
+                          </strong>{" "}
+                          {nextEvent.title}{" "}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              );
-            }
-
-            return (
-              <div key={room.name} style={{ marginBottom: "2em", textAlign: "left" }}>
-                <h2 style={{ marginBottom: 0 }}>{room.name}</h2>
-                <div
-                  style={{
-                    textTransform: "uppercase",
-                    color: "#777",
-                    fontWeight: "bold",
-                    marginTop: 0,
-                    marginBottom: "0.5em",
-                  }}
-                >
-                  Fits {room.maxAttendance} people
-                </div>
-                {roomDetails}
-              </div>
-            );
-          })
+                  );
+                }
+
+                return (
+                  <div key={room.name} style={{ marginBottom: "2em", textAlign: "left" }}>
+                    <h2 style={{ marginBottom: 0 }}>
+                      {room.name}{" "}
+                      <a
+                        href={routeHash({ view: "wazzap", room: roomSlug(room.name) })}
+                        target="_blank"
+                        title="Open as a wall display"
+                        style={{ fontSize: "1rem" }}
+                      >
+                        ↗
+                      </a>
+                    </h2>
+                    <div
+                      style={{
+                        textTransform: "uppercase",
+                        color: "#777",
+                        fontWeight: "bold",
+                        marginTop: 0,
+                        marginBottom: "0.5em",
+                      }}
+                    >
+                      {[
+                        room.maxAttendance && `Fits ${room.maxAttendance} people`,
+                        ...(room.features ?? []),
+                      ]
+                        .filter((part) => part)
+                        .join(" · ")}
+                    </div>
+                    {room.description && (
+                      <div style={{ color: "#777", marginBottom: "0.5em" }}>{room.description}</div>
+                    )}
+                    {!room.error && <RoomStatusLine room={room} now={now} />}
+                    {!room.error && <QuickBook room={room} now={now} />}
+                    {roomDetails}
+                  </div>
+                );
+              })}
+            </Fragment>
+          ))
         )}
       </div>
     </div>
   );
 }
 
-function resolveInitialActive(): "hoozin" | "wazzap" {
-  const hash = window.location.hash.slice(1).toLowerCase();
-  if (hash === "wazzap") {
-    return "wazzap";
+// A single room in large type for a tablet outside its door, at #/wazzap/<room>
+function RoomKiosk({ roomKey }: { roomKey: string }) {
+  const { fetch, hasScope } = useGoogleToken();
+  const directory = hasScope(roomsScope);
+  const { timeZone } = useTimeZone();
+  const [room, setRoom] = useState<RoomInformation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const now = useNow(timeZone);
+  const { poll, visible } = usePoll(roomRefreshInterval);
+  const date = now.toPlainDate().toString();
+  useWakeLock();
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    fetchRooms(fetch, { directory })
+      .then((rooms) => {
+        const found = findRoom(rooms, roomKey);
+        if (!found) {
+          throw new Error(`There is no room called ${roomKey}`);
+        }
+        const day = Temporal.PlainDate.from(date);
+        // Tomorrow too, to tell what is first in the room after today's last meeting
+        return fetchRoomEvents(fetch, found, {
+          ...dateWindow(day, day.add({ days: 1 }), timeZone),
+          timeZone,
+          maxResults: 50,
+        });
+      })
+      .then(
+        (data) => {
+          if (cancelled) return;
+          setRoom(data);
+          setError(data.error ?? null);
+        },
+        (error) => {
+          if (cancelled) return;
+          console.error("Could not load room", error);
+          setError(errorDescription(error));
+        }
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [fetch, directory, timeZone, roomKey, date, visible, poll]);
+
+  if (!room) {
+    return <div className="kiosk">{error ?? "Loading..."}</div>;
   }
-  return "hoozin";
+
+  const status = roomStatus(room, now);
+  const time = (dateTime: Temporal.ZonedDateTime) =>
+    dateTime.toLocaleString(undefined, { hour: "2-digit", minute: "2-digit" });
+  const current =
+    status.state === "busy"
+      ? room.events.find(
+          (event) =>
+            Temporal.ZonedDateTime.compare(event.start, now) <= 0 &&
+            Temporal.ZonedDateTime.compare(event.end, now) > 0
+        )
+      : undefined;
+  const next = room.events.find((event) => Temporal.ZonedDateTime.compare(event.start, now) > 0);
+  const agenda = room.events.filter((event) => event.start.toPlainDate().toString() === date);
+
+  return (
+    <div className={`kiosk ${status.state}`}>
+      <div className="kiosk-room">
+        {room.name}
+        {room.maxAttendance && <span> · {room.maxAttendance} people</span>}
+      </div>
+      <div className="kiosk-status">{roomStatusText(room, now)}</div>
+      {current && (
+        <div className="kiosk-meeting">
+          Now: {current.title}, {time(current.start)}–{time(current.end)}
+        </div>
+      )}
+      {next && (
+        <div className="kiosk-meeting">
+          Next: {next.title},{" "}
+          {!next.start.toPlainDate().equals(now.toPlainDate()) &&
+            `${humanDate(next.start.toPlainDate(), now.toPlainDate())} `}
+          {time(next.start)}–{time(next.end)}
+        </div>
+      )}
+      <ol className="kiosk-agenda">
+        {agenda.map((event) => (
+          <li
+            key={event.id}
+            className={Temporal.ZonedDateTime.compare(event.end, now) <= 0 ? "past" : undefined}
+          >
+            <span>
+              {time(event.start)}–{time(event.end)}
+            </span>{" "}
+            {event.title}
+          </li>
+        ))}
+        {agenda.length === 0 && <li>Nothing booked today</li>}
+      </ol>
+      {error && <div className="kiosk-error">Could not refresh: {error}</div>}
+      <button
+        className="kiosk-fullscreen"
+        onClick={() =>
+          document.documentElement
+            .requestFullscreen()
+            .catch((error) => console.warn("Could not go full screen", error))
+        }
+      >
+        Full screen
+      </button>
+    </div>
+  );
 }
 
-function InnerApp() {
-  const [active, setActive] = useState<"hoozin" | "wazzap">(resolveInitialActive());
+// Finds a free room for a party at a time, or the nearest times a room is free
+function RoomSearch() {
+  const { fetch, send, hasScope } = useGoogleToken();
+  const directory = hasScope(roomsScope);
+  const { timeZone } = useTimeZone();
+  // The next quarter hour, in the form datetime-local inputs use
+  const [start, setStart] = useState(() =>
+    Temporal.Now.plainDateTimeISO(timeZone)
+      .round({ smallestUnit: "minutes", roundingIncrement: 15, roundingMode: "ceil" })
+      .toString({ smallestUnit: "minute" })
+  );
+  const [duration, setDuration] = useState(60);
+  const [attendees, setAttendees] = useState(2);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ReturnType<typeof searchRooms> | null>(null);
+
+  const search = async () => {
+    setSearching(true);
+    setError(null);
+    try {
+      const from = Temporal.PlainDateTime.from(start).toZonedDateTime(timeZone);
+      const rooms = await fetchRooms(fetch, { directory });
+      // Through the day the slot ends on, for meetings that run past midnight
+      const busy = await fetchFreeBusy(send, rooms, {
+        ...dateWindow(from.toPlainDate(), from.add({ minutes: duration }).toPlainDate(), timeZone),
+        timeZone,
+      });
+      setResult(
+        searchRooms(rooms, busy, {
+          start: from,
+          duration: Temporal.Duration.from({ minutes: duration }),
+          attendees,
+        })
+      );
+    } catch (error) {
+      console.error("Could not search for rooms", error);
+      setError(errorDescription(error));
+    } finally {
+      setSearching(false);
+    }
+  };
 
-  if (active === "wazzap") {
-    return (
-      <div className="App">
-        <div
-          style={{
-            position: "fixed",
-            top: "1rem",
-            left: "1rem",
-            display: "flex",
-          }}
+  const time = (dateTime: Temporal.ZonedDateTime) =>
+    dateTime.toLocaleString(undefined, { hour: "2-digit", minute: "2-digit" });
+  const match = ({ room, start, end }: RoomMatch) => (
+    <li key={`${room.calendarId} ${start}`}>
+      <strong>{room.name}</strong>
+      {room.maxAttendance && ` (${room.maxAttendance})`} {time(start)}–{time(end)}
+    </li>
+  );
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        search();
+      }}
+      style={{ paddingTop: "4rem", textAlign: "left" }}
+    >
+      <h2>Find a room</h2>
+      <div style={{ display: "flex", flexFlow: "row wrap", gap: "0.5em", alignItems: "center" }}>
+        <input
+          type="datetime-local"
+          aria-label="Start"
+          required
+          step={15 * 60}
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+        />
+        <select
+          aria-label="Duration"
+          value={duration}
+          onChange={(e) => setDuration(Number(e.target.value))}
         >
-          <a
-            key="switch-hoozin"
-            href="#hoozin"
-            onClick={() => {
-              setActive("hoozin");
-            }}
-          >
-            Hoozin
-          </a>
-          <a
-            key="switch-wazzap"
-            href="#wazzap"
-            className="active"
-            onClick={() => {
-              setActive("wazzap");
-            }}
-          >
-            Wazzap
-          </a>
+          {[15, 30, 45, 60, 90, 120].map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </option>
+          ))}
+        </select>
+        <label>
+          for{" "}
+          <input
+            type="number"
+            min={1}
+            required
+            value={attendees}
+            onChange={(e) => setAttendees(Math.max(1, e.target.valueAsNumber || 1))}
+            style={{ width: "4em" }}
+          />{" "}
+          people
+        </label>
+        <button disabled={searching}>{searching ? "Searching…" : "Search"}</button>
+      </div>
+      {error && <div style={{ color: "#b00" }}>Could not search: {error}</div>}
+      {result &&
+        (result.exact.length > 0 ? (
+          <ul>{result.exact.map(match)}</ul>
+        ) : result.nearest.length > 0 ? (
+          <>
+            <div>No room is free then. The nearest free times are</div>
+            <ul>{result.nearest.map(match)}</ul>
+          </>
+        ) : (
+          <div>No room fits {attendees} people that day.</div>
+        ))}
+    </form>
+  );
+}
+
+// Where the timeline starts and ends unless bookings go outside it
+const timelineHours = { start: 7, end: 19 };
+
+// All rooms' bookings on a day side by side, to see the gaps between them
+function RoomTimeline() {
+  const { fetch, hasScope } = useGoogleToken();
+  const directory = hasScope(roomsScope);
+  const { timeZone } = useTimeZone();
+  const now = useNow(timeZone);
+  const { poll, visible } = usePoll(roomRefreshInterval);
+  const { route, navigate } = useRouter();
+  const dateString = (route.view === "wazzap" && route.date?.toString()) || null;
+  const date = useMemo(
+    () => (dateString ? Temporal.PlainDate.from(dateString) : today(timeZone)),
+    [dateString, timeZone]
+  );
+  const setDate = (date: Temporal.PlainDate) =>
+    navigate({
+      view: "wazzap",
+      room: null,
+      layout: "timeline",
+      date: date.equals(today(timeZone)) ? null : date,
+    });
+  const [rooms, setRooms] = useState<RoomInformation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<
+    (RoomInformation["events"][number] & { room: string }) | null
+  >(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    fetchRoomDay(fetch, date, timeZone, { directory }).then(
+      (data) => {
+        if (cancelled) return;
+        setRooms(data);
+        setError(null);
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error("Could not load the room timeline", error);
+        setError(errorDescription(error));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [fetch, directory, timeZone, date, visible, poll]);
+
+  const dayStart = date.toZonedDateTime({ timeZone });
+  const hourOf = (dateTime: Temporal.ZonedDateTime) =>
+    dayStart.until(dateTime).total({ unit: "hours" });
+  const events = rooms?.flatMap((room) => room.events) ?? [];
+  const first = Math.floor(Math.min(timelineHours.start, ...events.map((e) => hourOf(e.start))));
+  const last = Math.ceil(Math.max(timelineHours.end, ...events.map((e) => hourOf(e.end))));
+  const position = (hour: number) =>
+    `${((Math.min(last, Math.max(first, hour)) - first) / (last - first)) * 100}%`;
+  const nowHour = now.toPlainDate().equals(date) ? hourOf(now) : null;
+  const time = (dateTime: Temporal.ZonedDateTime) =>
+    dateTime.toLocaleString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <div style={{ paddingTop: "1rem", textAlign: "left" }}>
+      <div style={{ display: "flex", gap: "0.5em", alignItems: "center", flexWrap: "wrap" }}>
+        <button onClick={() => setDate(date.subtract({ days: 1 }))}>‹</button>
+        <button disabled={date.equals(today(timeZone))} onClick={() => setDate(today(timeZone))}>
+          Today
+        </button>
+        <button onClick={() => setDate(date.add({ days: 1 }))}>›</button>
+        <h2>
+          {humanDate(date, today(timeZone))} {date.toString()}
+        </h2>
+      </div>
+      {error && <div style={{ color: "#b00" }}>Could not load rooms: {error}</div>}
+      {!rooms && !error && <div>Loading...</div>}
+      {rooms && (
+        <div className="timeline">
+          <div className="timeline-row">
+            <div />
+            <div className="timeline-track timeline-hours">
+              {Array.from({ length: last - first }, (_, index) => (
+                <span key={index} style={{ left: position(first + index) }}>
+                  {String(first + index).padStart(2, "0")}
+                </span>
+              ))}
+            </div>
+          </div>
+          {roomGroups(rooms).map(({ title, rooms }) => (
+            <Fragment key={title}>
+              {title && <div className="timeline-group">{title}</div>}
+              {rooms.map((room) => (
+                <div key={room.calendarId} className="timeline-row">
+                  <div className="timeline-room" title={room.name}>
+                    {room.name}
+                    {room.maxAttendance && <small> ({room.maxAttendance})</small>}
+                  </div>
+                  <div className="timeline-track">
+                    {room.error && <span className="timeline-error">{room.error}</span>}
+                    {room.events.map((event) => (
+                      <button
+                        key={event.id}
+                        className="timeline-event"
+                        title={`${event.title} ${time(event.start)}–${time(event.end)}`}
+                        style={{
+                          left: position(hourOf(event.start)),
+                          width: `calc(${position(hourOf(event.end))} - ${position(
+                            hourOf(event.start)
+                          )})`,
+                        }}
+                        onClick={() => setSelected({ ...event, room: room.name })}
+                      >
+                        {event.title}
+                      </button>
+                    ))}
+                    {nowHour !== null && nowHour >= first && nowHour <= last && (
+                      <div className="timeline-now" style={{ left: position(nowHour) }} />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </Fragment>
+          ))}
+        </div>
+      )}
+      {selected && (
+        <div className="timeline-details">
+          <strong>{selected.title}</strong>
+          <div>
+            {selected.room}, {time(selected.start)}–{time(selected.end)}
+          </div>
+          {selected.link && (
+            <a href={selected.link} target="_blank" rel="noreferrer">
+              Open in Google Calendar
+            </a>
+          )}{" "}
+          <button onClick={() => setSelected(null)}>Close</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type Booking =
+  | { state: "booking" | "waiting" | "declined" | "pending" }
+  | { state: "accepted"; until: Temporal.ZonedDateTime }
+  | { state: "failed"; error: string };
+
+// Books a free room from now on, and tells whether the room accepted
+function QuickBook({ room, now }: { room: RoomInformation; now: Temporal.ZonedDateTime }) {
+  const { send, invalidate } = useGoogleToken();
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const status = roomStatus(room, now);
+
+  const book = async (minutes: number) => {
+    const start = Temporal.Now.zonedDateTimeISO(now.timeZoneId).round({
+      smallestUnit: "minute",
+      roundingMode: "floor",
+    });
+    const end = start.add({ minutes });
+    setBooking({ state: "booking" });
+    try {
+      const eventId = await bookRoom(send, room, { start, end });
+      setBooking({ state: "waiting" });
+      const response = await waitForRoom(send, eventId, room.calendarId);
+      if (response === "declined") {
+        await cancelBooking(send, eventId).catch((error) =>
+          console.warn("Could not remove declined booking", error)
+        );
+        setBooking({ state: "declined" });
+      } else {
+        setBooking(
+          response === "accepted" ? { state: "accepted", until: end } : { state: "pending" }
+        );
+      }
+      await invalidate(room.calendarId);
+    } catch (error) {
+      console.error("Could not book", room.name, error);
+      setBooking({ state: "failed", error: errorDescription(error) });
+    }
+  };
+
+  if (booking?.state === "booking" || booking?.state === "waiting") {
+    return (
+      <div style={{ color: "#777" }}>
+        {booking.state === "booking" ? "Booking…" : `Waiting for ${room.name} to accept…`}
+      </div>
+    );
+  } else if (
+    booking?.state === "accepted" &&
+    Temporal.ZonedDateTime.compare(now, booking.until) < 0
+  ) {
+    return (
+      <div style={{ color: "#3a3" }}>
+        Booked for you until{" "}
+        {booking.until.toLocaleString(undefined, { hour: "2-digit", minute: "2-digit" })}
+      </div>
+    );
+  }
+
+  // Only as long as the room stays free
+  const freeMinutes =
+    status.state === "free" && status.until
+      ? now.until(status.until).total({ unit: "minutes" })
+      : Infinity;
+  return (
+    <div style={{ marginBottom: "0.5em" }}>
+      {status.state === "free" && (
+        <div style={{ display: "flex", gap: "0.5em", alignItems: "center" }}>
+          Book
+          {[15, 30, 60].map((minutes) => (
+            <button
+              key={minutes}
+              disabled={minutes > freeMinutes}
+              onClick={() => book(minutes)}
+              style={{ padding: "0.2em 0.6em" }}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+      )}
+      {booking?.state === "declined" && (
+        <div style={{ color: "#b00" }}>
+          {room.name} declined the booking, it may have just been taken. It was removed from your
+          calendar again.
         </div>
+      )}
+      {booking?.state === "pending" && (
+        <div style={{ color: "#e90" }}>
+          {room.name} has not answered yet, check the booking in your calendar.
+        </div>
+      )}
+      {booking?.state === "failed" && (
+        <div style={{ color: "#b00" }}>Could not book: {booking.error}</div>
+      )}
+    </div>
+  );
+}
+
+// "Busy until 10:30", "Free for 25 min" or "Free"
+function roomStatusText(room: RoomInformation, now: Temporal.ZonedDateTime): string {
+  const status = roomStatus(room, now);
+  const time = (dateTime: Temporal.ZonedDateTime) =>
+    dateTime.toLocaleString(undefined, { hour: "2-digit", minute: "2-digit" });
+  if (status.state === "busy") {
+    return `Busy until ${time(status.until)}`;
+  } else if (status.until) {
+    const minutes = Math.ceil(now.until(status.until).total({ unit: "minutes" }));
+    return minutes < 60 ? `Free for ${minutes} min` : `Free until ${time(status.until)}`;
+  }
+  return "Free";
+}
+
+function RoomStatusLine({ room, now }: { room: RoomInformation; now: Temporal.ZonedDateTime }) {
+  return (
+    <div
+      style={{
+        fontSize: "1.25rem",
+        fontWeight: "bold",
+        marginBottom: "0.25em",
+        color: roomStatus(room, now).state === "busy" ? "#c33" : "#3a3",
+      }}
+    >
+      {roomStatusText(room, now)}
+    </div>
+  );
+}
+
+function horizonWeeks(value: string | null): 1 | 2 | 4 {
+  if (value === "2") {
+    return 2;
+  } else if (value === "4") {
+    return 4;
+  }
+  return 1;
+}
+
+function AccountMenu() {
+  const { account, signOut, switchAccount } = useGoogleToken();
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "1rem",
+        right: "1rem",
+        display: "flex",
+        gap: "0.5em",
+        alignItems: "center",
+        fontSize: "0.8rem",
+      }}
+    >
+      {account && <span style={{ color: "#777" }}>{account}</span>}
+      <button
+        onClick={() =>
+          switchAccount().catch((error) => console.error("Could not switch account", error))
+        }
+      >
+        Switch account
+      </button>
+      <button onClick={() => signOut()}>Sign out</button>
+    </div>
+  );
+}
+
+// Switches between the apps, the same for all of them
+function Nav() {
+  const { route } = useRouter();
+  const wazzap = route.view === "wazzap";
+
+  return (
+    <div style={{ position: "fixed", top: "1rem", left: "1rem", display: "flex" }}>
+      <a href={routeHash({ view: "hoozin", date: null })} className={wazzap ? undefined : "active"}>
+        Hoozin
+      </a>
+      <a href={routeHash({ view: "wazzap", room: null })} className={wazzap ? "active" : undefined}>
+        Wazzap
+      </a>
+    </div>
+  );
+}
+
+function InnerApp() {
+  const { route } = useRouter();
+
+  if (route.view === "wazzap" && route.room) {
+    return <RoomKiosk roomKey={route.room} />;
+  }
+
+  return (
+    <div className="App">
+      <Nav />
+      <AccountMenu />
+      {route.view === "wazzap" ? (
         <div
           style={{
             display: "grid",
@@ -1103,47 +3073,34 @@ function InnerApp() {
         >
           <Wazzap />
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="App">
-      <div style={{ position: "fixed", top: "1rem", left: "1rem", display: "flex" }}>
-        <a
-          key="switch-hoozin"
-          href="#hoozin"
-          className="active"
-          onClick={() => {
-            setActive("hoozin");
-            return true;
-          }}
-        >
-          Hoozin
-        </a>
-        <a
-          key="switch-wazzap"
-          href="#wazzap"
-          onClick={() => {
-            setActive("wazzap");
-            return true;
-          }}
-        >
-          Wazzap
-        </a>
-      </div>
-      <Hoozin />
+      ) : (
+        <Hoozin />
+      )}
     </div>
   );
 }
 
+// Wall displays are opened straight at their room, and stay there
+const wallDisplay = (() => {
+  const route = parseRoute(window.location.hash);
+  return route.view === "wazzap" && route.room !== null;
+})();
+
 function App() {
   return (
-    <>
-      <GoogleTokenProvider>
-        <InnerApp />
-      </GoogleTokenProvider>
-    </>
+    <RouterProvider>
+      <TimeZoneProvider>
+        {demo ? (
+          <DemoTokenProvider options={demo}>
+            <InnerApp />
+          </DemoTokenProvider>
+        ) : (
+          <GoogleTokenProvider unattended={wallDisplay}>
+            <InnerApp />
+          </GoogleTokenProvider>
+        )}
+      </TimeZoneProvider>
+    </RouterProvider>
   );
 }
 
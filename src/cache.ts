@@ -0,0 +1,253 @@
+import { Temporal } from "temporal-polyfill";
+
+export type CachePolicy = {
+  // How long a response is used without asking the API again
+  ttl: Temporal.DurationLike;
+  // How long after that a response is still shown while a fresh one is fetched in the background
+  staleWhileRevalidate?: Temporal.DurationLike;
+};
+
+type CacheRecord = {
+  key: string;
+  data: unknown;
+  freshUntil: number;
+  staleUntil: number;
+  lastUsedAt: number;
+  size: number;
+};
+
+// A request shared by everyone asking for the same key at once. It is aborted when every caller
+// that waits for it has given up, callers without a signal never do.
+type Shared = { request: Promise<unknown>; controller: AbortController; waiting: number };
+
+const databaseName = "hoozin-cache";
+const storeName = "responses";
+// Evict the least recently used responses above this many bytes
+const maxBytes = 25 * 1024 * 1024;
+
+let database: Promise<IDBDatabase | null> | null = null;
+const inFlight = new Map<string, Shared>();
+const updates = new EventTarget();
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!database) {
+    database = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(storeName, { keyPath: "key" });
+        store.createIndex("lastUsedAt", "lastUsedAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private windows may not allow IndexedDB, responses are then not cached
+        console.warn("Could not open response cache", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return database;
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function milliseconds(duration: Temporal.DurationLike | undefined): number {
+  return duration ? Temporal.Duration.from(duration).total({ unit: "milliseconds" }) : 0;
+}
+
+async function readRecord(key: string): Promise<CacheRecord | undefined> {
+  const db = await openDatabase();
+  if (!db) {
+    return undefined;
+  }
+  return result<CacheRecord | undefined>(db.transaction(storeName).objectStore(storeName).get(key));
+}
+
+async function touchRecord(record: CacheRecord) {
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  await result(store.put({ ...record, lastUsedAt: Date.now() }));
+}
+
+async function writeRecord(key: string, policy: CachePolicy, data: unknown) {
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  const now = Date.now();
+  const freshUntil = now + milliseconds(policy.ttl);
+  const record: CacheRecord = {
+    key,
+    data,
+    freshUntil,
+    staleUntil: freshUntil + milliseconds(policy.staleWhileRevalidate),
+    lastUsedAt: now,
+    size: new TextEncoder().encode(JSON.stringify(data)).length,
+  };
+  try {
+    const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+    await result(store.put(record));
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      // Make room for next time, this response is simply not cached
+      console.warn("Response cache is over quota, evicting", error);
+      await evict(maxBytes / 2);
+      return;
+    }
+    throw error;
+  }
+  await evict(maxBytes);
+}
+
+// Deletes the least recently used responses until the cache holds at most budget bytes
+async function evict(budget: number) {
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  const records = await result<CacheRecord[]>(store.index("lastUsedAt").getAll());
+  let total = records.reduce((sum, record) => sum + record.size, 0);
+  for (const record of records) {
+    if (total <= budget) {
+      break;
+    }
+    store.delete(record.key);
+    total -= record.size;
+  }
+}
+
+function refresh<T>(
+  key: string,
+  policy: CachePolicy,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal | null
+): Promise<T> {
+  signal?.throwIfAborted();
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const request = fetcher(controller.signal)
+      .then(async (data) => {
+        await writeRecord(key, policy, data).catch((error) => {
+          console.warn("Could not cache response for", key, error);
+        });
+        return data;
+      })
+      .finally(() => {
+        if (inFlight.get(key)?.request === request) {
+          inFlight.delete(key);
+        }
+      });
+    shared = { request, controller, waiting: 0 };
+    inFlight.set(key, shared);
+  }
+  shared.waiting++;
+  const request = shared.request as Promise<T>;
+  if (!signal) {
+    return request;
+  }
+
+  const entry = shared;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      reject(signal.reason);
+      entry.waiting--;
+      if (entry.waiting === 0) {
+        // Nobody wants it any more, so it need not hold up requests that are still wanted
+        inFlight.delete(key);
+        entry.controller.abort(signal.reason);
+      }
+    };
+    signal.addEventListener("abort", abort, { once: true });
+    request.then(resolve, reject).finally(() => signal.removeEventListener("abort", abort));
+  });
+}
+
+// The fetcher is shared by everyone asking for the same key at once, so it gets a signal of its own
+// that aborts once all of them have. Pass the signal of the caller here instead.
+export async function cacheFetch<T>(
+  key: string,
+  policy: CachePolicy,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal | null
+): Promise<T> {
+  signal?.throwIfAborted();
+  const cached = await readRecord(key).catch((error) => {
+    console.warn("Could not read cached response for", key, error);
+    return undefined;
+  });
+  const now = Date.now();
+  if (cached && now < cached.freshUntil) {
+    touchRecord(cached).catch(() => {});
+    return cached.data as T;
+  } else if (cached && now < cached.staleUntil) {
+    console.log("Revalidating stale cache for", key);
+    touchRecord(cached).catch(() => {});
+    refresh(key, policy, fetcher).then(
+      () => updates.dispatchEvent(new CustomEvent("update", { detail: key })),
+      (error) => console.warn("Could not revalidate", key, error)
+    );
+    return cached.data as T;
+  }
+  console.log("Cache miss for", key);
+  return refresh(key, policy, fetcher, signal);
+}
+
+// Called with the key of each response that was refreshed in the background
+export function onCacheUpdate(listener: (key: string) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<string>).detail);
+  updates.addEventListener("update", handler);
+  return () => updates.removeEventListener("update", handler);
+}
+
+export async function invalidateCache(key: string) {
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  await result(db.transaction(storeName, "readwrite").objectStore(storeName).delete(key));
+}
+
+export async function clearCache() {
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  await result(db.transaction(storeName, "readwrite").objectStore(storeName).clear());
+}
+
+// Drops responses that are too old to be shown and keeps the cache within its byte budget
+export async function purgeCache() {
+  // Responses used to be cached in localStorage under their SHA-256 hex key
+  for (const key of Object.keys(localStorage)) {
+    if (/^[0-9a-f]{64}$/.test(key)) {
+      localStorage.removeItem(key);
+    }
+  }
+
+  const db = await openDatabase();
+  if (!db) {
+    return;
+  }
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  const records = await result<CacheRecord[]>(store.getAll());
+  const now = Date.now();
+  for (const record of records) {
+    if (now >= record.staleUntil) {
+      store.delete(record.key);
+    }
+  }
+  await evict(maxBytes);
+}
@@ -0,0 +1,61 @@
+import type { DaySummary } from "./hoozin.ts";
+
+export type CapacitySettings = {
+  // Desks in the office, capacity planning is off when null
+  desks: number | null;
+  // Seats in meeting rooms that can take overflow, counted from the room calendars when null
+  roomSeats: number | null;
+  // Share of the TBD people expected to come in, from 0 to 1
+  tbdProbability: number;
+};
+
+export function capacitySettings(value: string | null): CapacitySettings {
+  const settings: CapacitySettings = { desks: null, roomSeats: null, tbdProbability: 0 };
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === "object") {
+        for (const key of ["desks", "roomSeats"] as const) {
+          if (Number.isInteger(parsed[key]) && parsed[key] >= 0) {
+            settings[key] = parsed[key];
+          }
+        }
+        if (typeof parsed.tbdProbability === "number") {
+          settings.tbdProbability = Math.min(1, Math.max(0, parsed.tbdProbability));
+        }
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return settings;
+}
+
+export type Utilisation = {
+  // People who said they are in the office
+  confirmed: number;
+  // Confirmed people plus the share of TBD people expected to come in
+  expected: number;
+  desks: number;
+  roomSeats: number;
+  // "rooms" when some people will have to sit in meeting rooms, "over" when even those are full
+  warning: "rooms" | "over" | null;
+};
+
+// Compares the expected headcount of a day with the desks, and the meeting rooms after that
+export function utilisation(
+  { byStatus }: Pick<DaySummary, "byStatus">,
+  settings: CapacitySettings & { desks: number; roomSeats: number }
+): Utilisation {
+  const confirmed = byStatus.officeLocation.length;
+  const expected =
+    confirmed + Math.round((byStatus.unknown?.length ?? 0) * settings.tbdProbability);
+  const { desks, roomSeats } = settings;
+  return {
+    confirmed,
+    expected,
+    desks,
+    roomSeats,
+    warning: expected > desks + roomSeats ? "over" : expected > desks ? "rooms" : null,
+  };
+}
@@ -0,0 +1,123 @@
+import { Temporal } from "temporal-polyfill";
+
+export function isTimeZone(value: string): boolean {
+  try {
+    Temporal.Now.zonedDateTimeISO(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function timeZoneSetting(value: string | null): string {
+  if (value && isTimeZone(value)) {
+    return value;
+  }
+  const orgTimeZone = import.meta.env.VITE_TIME_ZONE;
+  if (orgTimeZone && isTimeZone(orgTimeZone)) {
+    return orgTimeZone;
+  }
+  return Temporal.Now.timeZoneId();
+}
+
+export function today(timeZone: string, now: Temporal.Instant = Temporal.Now.instant()) {
+  return now.toZonedDateTimeISO(timeZone).toPlainDate();
+}
+
+export function workingDate(
+  date: Temporal.PlainDate,
+  isClosed: (date: Temporal.PlainDate) => boolean = () => false
+) {
+  let nextDay = date;
+  // Bounded so a misconfigured closure calendar cannot hang the app
+  for (let i = 0; i < 60; i++) {
+    if (nextDay.dayOfWeek === 6) {
+      // Saturday, skip to Monday
+      nextDay = nextDay.add({ days: 2 });
+    } else if (nextDay.dayOfWeek === 7) {
+      // Sunday, skip to Monday
+      nextDay = nextDay.add({ days: 1 });
+    } else if (isClosed(nextDay)) {
+      nextDay = nextDay.add({ days: 1 });
+    } else {
+      break;
+    }
+  }
+  return nextDay;
+}
+
+// The given number of weekdays, starting with the first working day from start. Closed days
+// after the first one are kept so they can be shown as closed.
+export function workingDays(
+  start: Temporal.PlainDate,
+  count: number,
+  isClosed?: (date: Temporal.PlainDate) => boolean
+): Temporal.PlainDate[] {
+  const days: Temporal.PlainDate[] = [workingDate(start, isClosed)];
+  while (days.length < count) {
+    days.push(workingDate(days[days.length - 1].add({ days: 1 })));
+  }
+  return days;
+}
+
+export function startOfWeek(date: Temporal.PlainDate): Temporal.PlainDate {
+  return date.subtract({ days: date.dayOfWeek - 1 });
+}
+
+export function humanDate(date: Temporal.PlainDate, today: Temporal.PlainDate): string {
+  const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  if (Temporal.PlainDate.compare(date, today) === 0) {
+    return "Today";
+  } else if (Temporal.PlainDate.compare(date, today.add({ days: 1 })) === 0) {
+    return "Tomorrow";
+  } else if (Temporal.PlainDate.compare(date, today.subtract({ days: 1 })) === 0) {
+    return "Yesterday";
+  }
+  // Use the name of the day of the week if less than 7 days away
+  else if (
+    Temporal.PlainDate.compare(date, today) > 0 &&
+    Temporal.PlainDate.compare(date, today.add({ days: 7 })) < 0
+  ) {
+    return dayNames[date.dayOfWeek % 7];
+  } else if (
+    Temporal.PlainDate.compare(date, today) < 0 &&
+    Temporal.PlainDate.compare(date, today.subtract({ days: 7 })) > 0
+  ) {
+    return `Last ${dayNames[date.dayOfWeek % 7]}`;
+  }
+
+  return date.toString();
+}
+
+// The timeMin/timeMax instants covering whole days from minDate through maxDate, midnight to
+// midnight in timeZone, so a day the clocks change on is 23 or 25 hours long
+export function dateWindow(
+  minDate: Temporal.PlainDate,
+  maxDate: Temporal.PlainDate,
+  timeZone: string
+): { timeMin: string; timeMax: string } {
+  return {
+    timeMin: minDate.toZonedDateTime({ timeZone }).toInstant().toString(),
+    timeMax: maxDate.add({ days: 1 }).toZonedDateTime({ timeZone }).toInstant().toString(),
+  };
+}
+
+// The timeMin/timeMax instants from the start of the current hour and the given duration ahead
+export function upcomingWindow(
+  duration: Temporal.DurationLike,
+  timeZone: string,
+  now: Temporal.Instant = Temporal.Now.instant()
+): { timeMin: string; timeMax: string } {
+  const start = now
+    .toZonedDateTimeISO(timeZone)
+    .round({ smallestUnit: "hour", roundingMode: "floor" });
+  return {
+    timeMin: start.toInstant().toString(),
+    timeMax: start.add(duration).toInstant().toString(),
+  };
+}
+
+// Google returns RFC 3339 timestamps with an offset, which are read as wall time in timeZone
+export function zonedDateTime(dateTime: string, timeZone: string): Temporal.ZonedDateTime {
+  return Temporal.Instant.from(dateTime).toZonedDateTimeISO(timeZone);
+}
@@ -0,0 +1,514 @@
+import { Temporal } from "temporal-polyfill";
+import type { DemoOptions } from "./demoOptions.ts";
+
+// A fake of the Google endpoints the app uses, with generated people, working locations and room
+// bookings. It is only loaded in demo mode, see demoOptions.ts.
+
+// Small seeded generator (mulberry32), so the same seed gives the same organisation
+function random(...seeds: number[]): () => number {
+  let state = seeds.reduce((hash, seed) => Math.imul(hash ^ seed, 2654435761) >>> 0, 0x9e3779b9);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(next: () => number, items: readonly T[]): T {
+  return items[Math.floor(next() * items.length)];
+}
+
+const firstNames = (
+  "Anna Bjørn Camilla David Eirik Fatima Gustav Hanna Ingrid Jonas Kari Lars Maja Nils " +
+  "Olivia Per Rania Sofie Tobias Ulrik Vera William Yusuf Zara Aksel Emma Henrik Ida Magnus " +
+  "Nora"
+).split(" ");
+const lastNames = (
+  "Andersen Berg Dahl Eriksen Fjeld Hansen Haugen Johansen Karlsen Larsen Lund Moen Nilsen " +
+  "Olsen Pedersen Solberg Strand Vik"
+).split(" ");
+const buildings = [
+  { buildingId: "hq", label: "HQ" },
+  { buildingId: "harbour", label: "Harbour office" },
+] as const;
+const rooms = [
+  { name: "Aurora", capacity: 12, floor: "2", features: ["VC", "Whiteboard"] },
+  { name: "Fjord", capacity: 8, floor: "2", features: ["VC"] },
+  { name: "Glacier", capacity: 6, floor: "3", features: ["Whiteboard"] },
+  { name: "Lighthouse", capacity: 4, floor: "3", features: ["VC"] },
+  { name: "Cabin", capacity: 2, floor: "3", features: [] },
+] as const;
+const teams = ["Platform", "Design", "Sales"];
+const meetingTitles = (
+  "Standup,Planning,1:1,Design review,Customer call,Retro,Interview,All hands prep," +
+  "Lunch & learn,Budget"
+).split(",");
+
+type DemoPerson = {
+  email: string;
+  name: string;
+  // Days of the week (1 is Monday) this person is usually in the office
+  officeDays: number[];
+  building: (typeof buildings)[number];
+  // How often they have not said where they work
+  undecided: number;
+};
+
+type DemoEvent = {
+  id: string;
+  status?: "confirmed" | "cancelled";
+  eventType?: string;
+  start: { date: string } | { dateTime: string; timeZone?: string };
+  end: { date: string } | { dateTime: string; timeZone?: string };
+  [property: string]: unknown;
+};
+
+function generatePeople(options: DemoOptions): DemoPerson[] {
+  const next = random(options.seed);
+  const people: DemoPerson[] = [];
+  const used = new Set<string>();
+  while (people.length < options.people) {
+    const first = pick(next, firstNames);
+    const last = pick(next, lastNames);
+    let email = `${first}.${last}@demo.example`.toLowerCase().replace("ø", "o");
+    for (let i = 2; used.has(email); i++) {
+      email = `${first}.${last}${i}@demo.example`.toLowerCase().replace("ø", "o");
+    }
+    used.add(email);
+    const officeDays = [1, 2, 3, 4, 5].filter(() => next() < 0.55);
+    people.push({
+      email,
+      name: `${first} ${last}`,
+      officeDays,
+      building: next() < 0.8 ? buildings[0] : buildings[1],
+      undecided: next() * 0.3,
+    });
+  }
+  return people;
+}
+
+// The days that overlap the timeMin to timeMax window
+function daysInWindow(url: URL, timeZone: string): Temporal.PlainDate[] {
+  const today = Temporal.Now.plainDateISO(timeZone);
+  const timeMin = url.searchParams.get("timeMin");
+  const timeMax = url.searchParams.get("timeMax");
+  const minDate = timeMin
+    ? Temporal.Instant.from(timeMin).toZonedDateTimeISO(timeZone).toPlainDate()
+    : today.subtract({ days: 7 });
+  const maxDate = timeMax
+    ? Temporal.Instant.from(timeMax)
+        .subtract({ nanoseconds: 1 })
+        .toZonedDateTimeISO(timeZone)
+        .toPlainDate()
+    : today.add({ days: 28 });
+  const days: Temporal.PlainDate[] = [];
+  for (let date = minDate; Temporal.PlainDate.compare(date, maxDate) <= 0; ) {
+    days.push(date);
+    date = date.add({ days: 1 });
+  }
+  return days;
+}
+
+function dateTime(date: Temporal.PlainDate, time: string, timeZone: string): string {
+  return date
+    .toZonedDateTime({ timeZone, plainTime: Temporal.PlainTime.from(time) })
+    .toString({ timeZoneName: "never" });
+}
+
+function personEvents(
+  options: DemoOptions,
+  index: number,
+  person: DemoPerson,
+  date: Temporal.PlainDate,
+  timeZone: string
+): DemoEvent[] {
+  if (date.dayOfWeek > 5) {
+    return [];
+  }
+  const monday = date.subtract({ days: date.dayOfWeek - 1 });
+  const id = `demo${index}x${date.toString().replaceAll("-", "")}`;
+  // Some people are away for a whole week now and then
+  if (random(options.seed, index, monday.year, monday.dayOfYear)() < 0.05) {
+    return [
+      {
+        id: `${id}ooo`,
+        eventType: "outOfOffice",
+        summary: "Vacation",
+        start: { dateTime: dateTime(date, "00:00", timeZone) },
+        end: { dateTime: dateTime(date.add({ days: 1 }), "00:00", timeZone) },
+      },
+    ];
+  }
+  const next = random(options.seed, index, date.year, date.dayOfYear);
+  if (next() < person.undecided) {
+    return [];
+  }
+  const office = {
+    type: "officeLocation",
+    officeLocation: { buildingId: person.building.buildingId, label: person.building.label },
+  };
+  const home = { type: "homeOffice", homeOffice: {} };
+  const inOffice = person.officeDays.includes(date.dayOfWeek) !== next() < 0.1;
+  if (next() < 0.08) {
+    // Working from home in the morning and from the office after lunch
+    return [
+      {
+        id: `${id}am`,
+        eventType: "workingLocation",
+        start: { dateTime: dateTime(date, "08:00", timeZone) },
+        end: { dateTime: dateTime(date, "12:00", timeZone) },
+        workingLocationProperties: home,
+      },
+      {
+        id: `${id}pm`,
+        eventType: "workingLocation",
+        start: { dateTime: dateTime(date, "12:00", timeZone) },
+        end: { dateTime: dateTime(date, "16:00", timeZone) },
+        workingLocationProperties: office,
+      },
+    ];
+  }
+  return [
+    {
+      id,
+      eventType: "workingLocation",
+      start: { date: date.toString() },
+      end: { date: date.add({ days: 1 }).toString() },
+      workingLocationProperties: inOffice ? office : home,
+    },
+  ];
+}
+
+function roomEvents(
+  options: DemoOptions,
+  index: number,
+  date: Temporal.PlainDate,
+  timeZone: string
+): DemoEvent[] {
+  if (date.dayOfWeek > 5) {
+    return [];
+  }
+  const next = random(options.seed, 1000 + index, date.year, date.dayOfYear);
+  const events: DemoEvent[] = [];
+  for (let minutes = 8 * 60; minutes < 17 * 60; minutes += 30) {
+    if (next() < 0.35) {
+      const duration = pick(next, [30, 60, 60, 90]);
+      const start = Temporal.PlainTime.from({ hour: 0 }).add({ minutes });
+      const end = start.add({ minutes: duration });
+      events.push({
+        id: `room${index}x${date.toString().replaceAll("-", "")}x${minutes}`,
+        eventType: "default",
+        summary: pick(next, meetingTitles),
+        start: { dateTime: dateTime(date, start.toString(), timeZone) },
+        end: { dateTime: dateTime(date, end.toString(), timeZone) },
+      });
+      minutes += duration - 30;
+    }
+  }
+  return events;
+}
+
+function eventDate(event: DemoEvent, timeZone: string): string {
+  return "date" in event.start
+    ? event.start.date
+    : Temporal.Instant.from(event.start.dateTime)
+        .toZonedDateTimeISO(timeZone)
+        .toPlainDate()
+        .toString();
+}
+
+function json(body: unknown, status = 200): Response {
+  if (status === 204) {
+    return new Response(null, { status });
+  }
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function apiError(status: number, message: string, reason?: string): Response {
+  return json(
+    { error: { code: status, message, errors: reason ? [{ reason, message }] : [] } },
+    status
+  );
+}
+
+// Pages through items the way Google does, with the offset as page token
+function page<T>(url: URL, items: T[], defaultSize: number, key: string, extra: object) {
+  const size =
+    Number(url.searchParams.get("pageSize") ?? url.searchParams.get("maxResults")) || defaultSize;
+  const offset = Number(url.searchParams.get("pageToken") ?? 0);
+  const more = offset + size < items.length;
+  return {
+    [key]: items.slice(offset, offset + size),
+    nextPageToken: more ? String(offset + size) : undefined,
+    ...(more ? {} : extra),
+  };
+}
+
+export type DemoApi = {
+  // The signed in demo user
+  me: string;
+  fetch: (input: URL | RequestInfo, init?: RequestInit) => Promise<Response>;
+};
+
+export function createDemoApi(options: DemoOptions): DemoApi {
+  const people = generatePeople(options);
+  const me = people[0].email;
+  const roomIds = rooms.map(
+    (room) => `demo-${room.name.toLowerCase()}@resource.calendar.google.com`
+  );
+  // Events written by the demo user, by id, with the version they were changed in
+  const changes = new Map<string, { event: DemoEvent | null; version: number }>();
+  let version = 1;
+
+  function calendarEvents(calendarId: string, url: URL, timeZone: string): DemoEvent[] | null {
+    const days = daysInWindow(url, timeZone);
+    const roomIndex = roomIds.indexOf(calendarId);
+    if (roomIndex >= 0) {
+      const timeMin = url.searchParams.get("timeMin");
+      const timeMax = url.searchParams.get("timeMax");
+      // Bookings the demo user made in this room
+      const booked = Array.from(changes.values())
+        .map(({ event }) => event)
+        .filter(
+          (event): event is DemoEvent =>
+            !!event &&
+            Array.isArray(event.attendees) &&
+            event.attendees.some(
+              (attendee: { email: string; responseStatus?: string }) =>
+                attendee.email === calendarId && attendee.responseStatus === "accepted"
+            )
+        );
+      return [
+        ...days.flatMap((date) => roomEvents(options, roomIndex, date, timeZone)),
+        ...booked,
+      ].filter(
+        (event) =>
+          "dateTime" in event.end &&
+          "dateTime" in event.start &&
+          (!timeMin ||
+            Temporal.Instant.compare(
+              Temporal.Instant.from(event.end.dateTime),
+              Temporal.Instant.from(timeMin)
+            ) > 0) &&
+          (!timeMax ||
+            Temporal.Instant.compare(
+              Temporal.Instant.from(event.start.dateTime),
+              Temporal.Instant.from(timeMax)
+            ) < 0)
+      );
+    }
+    if (calendarId.includes("#holiday@")) {
+      return [];
+    }
+    const index = people.findIndex((person) => person.email === calendarId);
+    if (index < 0) {
+      return null;
+    }
+    const eventTypes = url.searchParams.getAll("eventTypes");
+    const dates = new Set(days.map((date) => date.toString()));
+    const generated = days
+      .flatMap((date) => personEvents(options, index, people[index], date, timeZone))
+      .filter((event) => !changes.has(event.id));
+    const written = Array.from(changes.values())
+      .map(({ event }) => event)
+      .filter((event): event is DemoEvent => !!event && calendarId === me)
+      .filter((event) => dates.has(eventDate(event, timeZone)));
+    return [...generated, ...written].filter(
+      (event) => eventTypes.length === 0 || eventTypes.includes(event.eventType ?? "default")
+    );
+  }
+
+  // Rooms accept bookings that do not clash with anything already in them
+  function roomResponse(roomId: string, event: DemoEvent): "accepted" | "declined" {
+    if (!("dateTime" in event.start) || !("dateTime" in event.end)) {
+      return "declined";
+    }
+    const window = new URL("https://demo.example");
+    window.searchParams.set("timeMin", Temporal.Instant.from(event.start.dateTime).toString());
+    window.searchParams.set("timeMax", Temporal.Instant.from(event.end.dateTime).toString());
+    const clashes = calendarEvents(roomId, window, event.start.timeZone ?? "UTC") ?? [];
+    return clashes.length > 0 ? "declined" : "accepted";
+  }
+
+  function events(calendarId: string, url: URL, init?: RequestInit): Response {
+    const timeZone = url.searchParams.get("timeZone") ?? "UTC";
+    const method = init?.method ?? "GET";
+    if (method !== "GET") {
+      if (calendarId !== me) {
+        return apiError(403, "You need to have writer access to this calendar.", "forbidden");
+      }
+      const eventId = decodeURIComponent(url.pathname.split("/events/")[1] ?? "");
+      const body = init?.body ? JSON.parse(String(init.body)) : {};
+      const existing =
+        changes.get(eventId)?.event ??
+        calendarEvents(me, new URL(url.origin), timeZone)?.find((event) => event.id === eventId);
+      version++;
+      if (method === "DELETE") {
+        changes.set(eventId, { event: null, version });
+        return json(null, 204);
+      }
+      const event: DemoEvent =
+        method === "PATCH" && existing
+          ? { ...existing, ...body }
+          : { ...body, id: `demo${crypto.randomUUID().replaceAll("-", "")}` };
+      if (Array.isArray(event.attendees)) {
+        event.attendees = event.attendees.map((attendee: { email: string }) =>
+          roomIds.includes(attendee.email)
+            ? { ...attendee, responseStatus: roomResponse(attendee.email, event) }
+            : attendee
+        );
+      }
+      changes.set(event.id, { event, version });
+      return json(event);
+    }
+
+    const eventId = decodeURIComponent(url.pathname.split("/events/")[1] ?? "");
+    if (eventId) {
+      const event = changes.get(eventId)?.event;
+      return event ? json(event) : apiError(404, "Not Found", "notFound");
+    }
+
+    const syncToken = url.searchParams.get("syncToken");
+    if (syncToken) {
+      const since = Number(syncToken.replace(/^demo-/, ""));
+      if (!syncToken.startsWith("demo-") || since > version) {
+        return apiError(
+          410,
+          "Sync token is no longer valid, a full sync is required.",
+          "fullSyncRequired"
+        );
+      }
+      // Only the demo user's own changes ever change
+      const items =
+        calendarId === me
+          ? Array.from(changes.entries())
+              .filter(([, change]) => change.version > since)
+              .map(([id, { event }]) => event ?? { id, status: "cancelled" })
+          : [];
+      return json({ items, nextSyncToken: `demo-${version}` });
+    }
+
+    const items = calendarEvents(calendarId, url, timeZone);
+    if (!items) {
+      return apiError(404, "Not Found", "notFound");
+    }
+    if (url.searchParams.get("orderBy") === "startTime") {
+      items.sort((a, b) =>
+        "dateTime" in a.start && "dateTime" in b.start && a.start.dateTime < b.start.dateTime
+          ? -1
+          : 1
+      );
+    }
+    return json(page(url, items, 250, "items", { nextSyncToken: `demo-${version}` }));
+  }
+
+  function route(url: URL, init?: RequestInit): Response {
+    if (url.pathname.endsWith("/people:listDirectoryPeople")) {
+      if (url.searchParams.has("syncToken")) {
+        // Nobody joins or leaves the demo organisation
+        return json({ people: [], nextSyncToken: "demo-people" });
+      }
+      const directory = people.map((person, index) => ({
+        resourceName: `people/demo${index}`,
+        names: [{ displayName: person.name, metadata: { primary: true } }],
+        emailAddresses: [{ value: person.email, metadata: { primary: true } }],
+      }));
+      return json(page(url, directory, 100, "people", { nextSyncToken: "demo-people" }));
+    } else if (url.pathname.endsWith("/admin/directory/v1/groups")) {
+      return json({
+        groups: teams.map((team) => ({ email: `${team.toLowerCase()}@demo.example`, name: team })),
+      });
+    } else if (url.pathname.match(/\/admin\/directory\/v1\/groups\/[^/]+\/members$/)) {
+      const team = teams.findIndex((team) =>
+        decodeURIComponent(url.pathname).includes(`/${team.toLowerCase()}@`)
+      );
+      if (team < 0) {
+        return apiError(404, "Resource Not Found: groupKey", "notFound");
+      }
+      // Everyone is in one team, the demo user in all of them
+      const members = people
+        .filter((_, index) => index === 0 || index % teams.length === team)
+        .map((person) => ({ email: person.email, type: "USER", status: "ACTIVE" }));
+      return json(page(url, members, 200, "members", {}));
+    } else if (url.pathname.endsWith("/customer/my_customer/resources/buildings")) {
+      return json({ buildings: [{ buildingId: "demo-hq", buildingName: "Demo HQ" }] });
+    } else if (url.pathname.endsWith("/customer/my_customer/resources/calendars")) {
+      const resources = rooms.map((room, index) => ({
+        resourceId: `demo${index}`,
+        resourceName: room.name,
+        resourceEmail: roomIds[index],
+        resourceCategory: "CONFERENCE_ROOM",
+        capacity: room.capacity,
+        buildingId: "demo-hq",
+        floorName: room.floor,
+        featureInstances: room.features.map((name) => ({ feature: { name } })),
+        userVisibleDescription: room.features.some((feature) => feature === "VC")
+          ? "Start video calls from the screen by the door"
+          : undefined,
+      }));
+      return json(page(url, resources, 100, "items", {}));
+    } else if (url.pathname.endsWith("/users/me/calendarList")) {
+      return json({
+        items: [
+          { id: me, summary: me, primary: true },
+          ...rooms.map((room, index) => ({
+            id: roomIds[index],
+            summary: `Demo HQ-${room.name} (${room.capacity})`,
+          })),
+        ],
+      });
+    } else if (url.pathname.endsWith("/calendar/v3/freeBusy")) {
+      const body: { timeMin: string; timeMax: string; timeZone?: string; items: { id: string }[] } =
+        JSON.parse(String(init?.body));
+      const window = new URL(url);
+      window.searchParams.set("timeMin", body.timeMin);
+      window.searchParams.set("timeMax", body.timeMax);
+      const calendars = Object.fromEntries(
+        body.items.map(({ id }) => {
+          const items = calendarEvents(id, window, body.timeZone ?? "UTC");
+          return [
+            id,
+            items
+              ? {
+                  busy: items.flatMap((event) =>
+                    "dateTime" in event.start && "dateTime" in event.end
+                      ? [{ start: event.start.dateTime, end: event.end.dateTime }]
+                      : []
+                  ),
+                }
+              : { busy: [], errors: [{ domain: "global", reason: "notFound" }] },
+          ];
+        })
+      );
+      return json({ kind: "calendar#freeBusy", timeMin: body.timeMin, calendars });
+    } else if (url.pathname.endsWith("/oauth2/v3/userinfo")) {
+      return json({ email: me, name: people[0].name });
+    }
+    const match = url.pathname.match(/\/calendar\/v3\/calendars\/([^/]+)\/events/);
+    if (match) {
+      const calendarId = decodeURIComponent(match[1]);
+      return events(calendarId === "primary" ? me : calendarId, url, init);
+    }
+    return apiError(404, `The demo has no ${url.pathname}`);
+  }
+
+  return {
+    me,
+    async fetch(input, init) {
+      const url = new URL(input instanceof Request ? input.url : input.toString());
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * options.latency));
+      init?.signal?.throwIfAborted();
+      if (Math.random() < options.errorRate) {
+        return Math.random() < 0.5
+          ? apiError(503, "The service is currently unavailable.", "backendError")
+          : apiError(429, "Rate Limit Exceeded", "rateLimitExceeded");
+      }
+      return route(url, init);
+    },
+  };
+}
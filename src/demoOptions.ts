@@ -0,0 +1,56 @@
+// Demo mode serves the fake Google API in demo.ts. It is selected with VITE_DEMO=true or by
+// opening the app at #demo, and the hash may ask for slow or failing responses, for instance
+// #demo?latency=2000&errors=0.2&people=80. Kept apart so the fake is not in the bundle otherwise.
+
+export type DemoOptions = {
+  // The same seed always generates the same people and bookings
+  seed: number;
+  people: number;
+  // Responses take up to this many milliseconds
+  latency: number;
+  // Fraction of requests that fail with a server or quota error
+  errorRate: number;
+};
+
+const demoOptionsKey = "hoozinDemo";
+
+function numberParam(params: URLSearchParams, name: string, fallback: number): number {
+  const value = Number(params.get(name));
+  return params.has(name) && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Demo mode is remembered for the browser tab, as the hash changes while the app is used
+export function demoOptions(hash: string): DemoOptions | null {
+  const match = hash.match(/^#demo(?:\?(.*))?$/);
+  if (match) {
+    const params = new URLSearchParams(match[1] ?? "");
+    const options: DemoOptions = {
+      seed: numberParam(params, "seed", 1),
+      people: Math.min(500, numberParam(params, "people", 40)),
+      latency: numberParam(params, "latency", Number(import.meta.env.VITE_DEMO_LATENCY ?? 300)),
+      errorRate: Math.min(
+        1,
+        numberParam(params, "errors", Number(import.meta.env.VITE_DEMO_ERROR_RATE ?? 0))
+      ),
+    };
+    sessionStorage.setItem(demoOptionsKey, JSON.stringify(options));
+    return options;
+  }
+  const stored = sessionStorage.getItem(demoOptionsKey);
+  if (stored) {
+    return JSON.parse(stored);
+  }
+  if (import.meta.env.VITE_DEMO === "true") {
+    return {
+      seed: 1,
+      people: 40,
+      latency: Number(import.meta.env.VITE_DEMO_LATENCY ?? 300),
+      errorRate: Number(import.meta.env.VITE_DEMO_ERROR_RATE ?? 0),
+    };
+  }
+  return null;
+}
+
+export function leaveDemo() {
+  sessionStorage.removeItem(demoOptionsKey);
+}
@@ -0,0 +1,133 @@
+import { Temporal } from "temporal-polyfill";
+import { daySummary, type State } from "./hoozin.ts";
+
+// Office dates by email address
+export type OfficeDays = Record<string, string[]>;
+
+export function favouritesSetting(value: string | null): Set<string> {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed) && parsed.every((item) => typeof item === "string")) {
+        return new Set(parsed);
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return new Set();
+}
+
+// What was seen of each person the last time the app was open: the dates their calendar was
+// loaded for, and the ones among them they were in the office. Only those dates tell what is new.
+export type SeenOfficeDays = Record<string, { loaded: string[]; office: string[] }>;
+
+function isDates(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((date) => typeof date === "string");
+}
+
+export function officeDaysSnapshot(value: string | null): SeenOfficeDays {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        // Snapshots from before the loaded dates were kept are dropped, as if nobody was seen
+        return Object.fromEntries(
+          Object.entries(parsed).filter(
+            (entry): entry is [string, SeenOfficeDays[string]] =>
+              !!entry[1] &&
+              typeof entry[1] === "object" &&
+              isDates((entry[1] as SeenOfficeDays[string]).loaded) &&
+              isDates((entry[1] as SeenOfficeDays[string]).office)
+          )
+        );
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return {};
+}
+
+// Days the given people count as in the office in the day summary. Groups and ignored people
+// are left out of it, a favourite stays a favourite when filtering.
+export function officeDays(state: State, emails: Iterable<string>): OfficeDays {
+  const unfiltered = { ...state, ignorePeople: new Set<string>(), group: null };
+  const days: OfficeDays = Object.fromEntries(Array.from(emails, (email) => [email, []]));
+  const dates = Array.from(new Set(state.events.map((entry) => entry.date))).sort();
+  for (const date of dates) {
+    const { byStatus } = daySummary(unfiltered, Temporal.PlainDate.from(date));
+    for (const person of byStatus.officeLocation) {
+      days[person.email]?.push(date);
+    }
+  }
+  return days;
+}
+
+// Office days from today on that were added since lastSeen and that the user is in the office as
+// well. Only dates loaded both then and now are compared, a week that was never shown before has
+// nothing added to it. People who were not seen before are left out for the same reason.
+export function newOverlaps(
+  lastSeen: SeenOfficeDays,
+  current: OfficeDays,
+  mine: string[],
+  today: string
+): { email: string; date: string }[] {
+  const overlaps: { email: string; date: string }[] = [];
+  for (const [email, dates] of Object.entries(current)) {
+    const seen = lastSeen[email];
+    if (!seen) {
+      continue;
+    }
+    for (const date of dates) {
+      if (
+        date >= today &&
+        mine.includes(date) &&
+        seen.loaded.includes(date) &&
+        !seen.office.includes(date)
+      ) {
+        overlaps.push({ email, date });
+      }
+    }
+  }
+  return overlaps;
+}
+
+// The snapshot to keep after the given dates were loaded for the current people. What was seen of
+// other dates is kept, and past dates are dropped.
+export function seenOfficeDays(
+  lastSeen: SeenOfficeDays,
+  current: OfficeDays,
+  loaded: string[],
+  today: string
+): SeenOfficeDays {
+  const seen: SeenOfficeDays = { ...lastSeen };
+  for (const [email, dates] of Object.entries(current)) {
+    const previous = lastSeen[email] ?? { loaded: [], office: [] };
+    seen[email] = {
+      loaded: Array.from(new Set([...previous.loaded, ...loaded])).sort(),
+      office: [
+        ...previous.office.filter((date) => !loaded.includes(date)),
+        ...dates.filter((date) => loaded.includes(date)),
+      ].sort(),
+    };
+  }
+  return Object.fromEntries(
+    Object.entries(seen).map(([email, { loaded, office }]) => [
+      email,
+      {
+        loaded: loaded.filter((date) => date >= today),
+        office: office.filter((date) => date >= today),
+      },
+    ])
+  );
+}
+
+// "Kari and Ola are in today"
+export function digest(names: string[], when: string): string | null {
+  if (names.length === 0) {
+    return null;
+  }
+  const list = new Intl.ListFormat("en", { type: "conjunction" }).format(names);
+  return `${list} ${names.length === 1 ? "is" : "are"} in ${when}`;
+}
@@ -0,0 +1,220 @@
+export type GoogleApiErrorKind =
+  // The token expired or was revoked, the user has to sign in again
+  | "auth"
+  // Too many requests, worth trying again a little later
+  | "quota"
+  // The user is not allowed to see this calendar or directory
+  | "permission"
+  | "notFound"
+  // Incremental sync has to start over with a full sync
+  | "expiredSyncToken"
+  // Network failures and server errors, worth trying again
+  | "transient"
+  | "invalid";
+
+export class GoogleApiError extends Error {
+  readonly kind: GoogleApiErrorKind;
+  // HTTP status, or 0 when the request never got an answer
+  readonly status: number;
+  // How long Google asked us to wait before trying again
+  readonly retryAfter?: number;
+
+  constructor(
+    kind: GoogleApiErrorKind,
+    status: number,
+    message: string,
+    options?: { retryAfter?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = "GoogleApiError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfter = options?.retryAfter;
+  }
+}
+
+type ErrorBody = {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    errors?: { reason?: string }[];
+  };
+};
+
+const quotaReasons = ["rateLimitExceeded", "userRateLimitExceeded", "quotaExceeded"];
+
+function errorKind(status: number, body: ErrorBody): GoogleApiErrorKind {
+  const reasons = body.error?.errors?.map((error) => error.reason) ?? [];
+  if (status === 401) {
+    return "auth";
+  } else if (status === 429 || reasons.some((reason) => quotaReasons.includes(reason ?? ""))) {
+    return "quota";
+  } else if (status === 410 || body.error?.status === "FAILED_PRECONDITION") {
+    // Calendar answers 410 Gone, People answers 400 with a failed precondition
+    return "expiredSyncToken";
+  } else if (status === 403) {
+    return "permission";
+  } else if (status === 404) {
+    return "notFound";
+  } else if (status >= 500 || status === 408) {
+    return "transient";
+  }
+  return "invalid";
+}
+
+// The JSON body of a successful response, or a GoogleApiError describing why it failed
+export async function googleResponse<T>(response: Response): Promise<T> {
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  const body: unknown = await response.json().catch(() => ({}));
+  if (response.ok) {
+    return body as T;
+  }
+  const seconds = Number(response.headers.get("Retry-After"));
+  return Promise.reject(
+    new GoogleApiError(
+      errorKind(response.status, body as ErrorBody),
+      response.status,
+      (body as ErrorBody).error?.message || response.statusText,
+      { retryAfter: seconds > 0 ? seconds * 1000 : undefined }
+    )
+  );
+}
+
+// fetch that reports network failures as transient GoogleApiErrors
+export async function googleFetch(...args: Parameters<typeof fetch>): Promise<Response> {
+  try {
+    return await fetch(...args);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error;
+    }
+    throw new GoogleApiError("transient", 0, "Could not reach Google", { cause: error });
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof GoogleApiError && (error.kind === "transient" || error.kind === "quota");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }, ms);
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+// Runs task again with exponential backoff and full jitter while it fails with a retryable error
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options?: {
+    retries?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    retryOn?: (error: unknown) => boolean;
+    signal?: AbortSignal;
+  }
+): Promise<T> {
+  const { retries = 4, baseDelay = 500, maxDelay = 30000, retryOn = isRetryable } = options ?? {};
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !retryOn(error)) {
+        throw error;
+      }
+      const backoff = Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+      const delay =
+        error instanceof GoogleApiError && error.retryAfter
+          ? Math.max(error.retryAfter, backoff)
+          : backoff;
+      console.warn(`Retrying in ${Math.round(delay)} ms after`, error);
+      await sleep(delay, options?.signal);
+    }
+  }
+}
+
+// A short explanation for showing next to the calendar or room that failed
+export function errorDescription(error: unknown): string {
+  if (!(error instanceof GoogleApiError)) {
+    return "Could not load";
+  }
+  switch (error.kind) {
+    case "auth":
+      return "Signed out";
+    case "quota":
+      return "Google is busy, try again later";
+    case "permission":
+      return "Not shared with you";
+    case "notFound":
+      return "Calendar not found";
+    case "transient":
+      return "Could not reach Google";
+    default:
+      return error.message;
+  }
+}
+
+export interface GooglePerson {
+  resourceName: string;
+  metadata?: { deleted?: boolean };
+  emailAddresses?: { value: string; metadata?: { primary: boolean } }[];
+  names?: { displayName: string; metadata?: { primary: boolean } }[];
+}
+
+export type GoogleCalendarEvent = { id: string; status?: "confirmed" | "tentative" } & (
+  | {
+      eventType: "workingLocation";
+      // Part-day working locations are given with times instead of dates
+      start: { date: string } | { dateTime: string };
+      end: { date: string } | { dateTime: string };
+      workingLocationProperties: {
+        type: "officeLocation" | "homeOffice" | "customLocation";
+        officeLocation?: { buildingId?: string; floorId?: string; label?: string };
+        customLocation?: { label?: string };
+      };
+    }
+  | {
+      eventType: "outOfOffice";
+      start: { dateTime: string };
+      end: { dateTime: string };
+    }
+  | {
+      summary: string;
+      eventType: "default";
+      start: { dateTime: string };
+      end: { dateTime: string };
+    }
+);
+
+// Incremental syncs only return the id and status of deleted events
+export type CancelledCalendarEvent = { id: string; status: "cancelled" };
+
+export type FetchFn = <T>(...args: Parameters<typeof fetch>) => Promise<T>;
+
+export async function* fetchPages<T extends { nextPageToken?: string }>(
+  fetchWithCache: FetchFn,
+  url: URL,
+  init?: RequestInit
+): AsyncGenerator<T> {
+  let pageToken: string | undefined;
+  do {
+    const pageUrl = new URL(url);
+    if (pageToken) {
+      pageUrl.searchParams.set("pageToken", pageToken);
+    }
+    const page: T = await fetchWithCache(pageUrl, init);
+    yield page;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+}
@@ -0,0 +1,75 @@
+import { fetchPages, type FetchFn } from "./googleApi.ts";
+
+export type Group = {
+  id: string;
+  name: string;
+  // Email addresses of the people in the group
+  members: string[];
+  // Email address of the Google Group the members were imported from, if any
+  googleGroup?: string;
+};
+
+export function groups(value: string | null): Group[] {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(
+          (group): group is Group =>
+            group &&
+            typeof group.id === "string" &&
+            typeof group.name === "string" &&
+            Array.isArray(group.members) &&
+            group.members.every((email: unknown) => typeof email === "string")
+        );
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return [];
+}
+
+const directoryUrl = "https://admin.googleapis.com/admin/directory/v1";
+
+// The Google Groups the user is a member of
+export async function fetchGoogleGroups(
+  fetchWithCache: FetchFn,
+  userKey: string
+): Promise<{ email: string; name: string }[]> {
+  const url = new URL(`${directoryUrl}/groups`);
+  url.searchParams.set("userKey", userKey);
+  url.searchParams.set("maxResults", "200");
+
+  const googleGroups: { email: string; name: string }[] = [];
+  for await (const page of fetchPages<{
+    groups?: { email: string; name: string }[];
+    nextPageToken?: string;
+  }>(fetchWithCache, url)) {
+    googleGroups.push(...(page.groups ?? []).map(({ email, name }) => ({ email, name })));
+  }
+  return googleGroups.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Email addresses of the people in a Google Group, including those in nested groups
+export async function fetchGoogleGroupMembers(
+  fetchWithCache: FetchFn,
+  groupKey: string
+): Promise<string[]> {
+  const url = new URL(`${directoryUrl}/groups/${encodeURIComponent(groupKey)}/members`);
+  url.searchParams.set("includeDerivedMembership", "true");
+  url.searchParams.set("maxResults", "200");
+
+  const members = new Set<string>();
+  for await (const page of fetchPages<{
+    members?: { email?: string; type: "USER" | "GROUP" | "CUSTOMER"; status?: string }[];
+    nextPageToken?: string;
+  }>(fetchWithCache, url)) {
+    for (const member of page.members ?? []) {
+      if (member.type === "USER" && member.email && member.status !== "SUSPENDED") {
+        members.add(member.email);
+      }
+    }
+  }
+  return Array.from(members);
+}
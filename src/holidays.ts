@@ -0,0 +1,168 @@
+import { Temporal } from "temporal-polyfill";
+
+export type ClosedDay = {
+  date: string;
+  name: string;
+  kind: "holiday" | "closure";
+};
+
+export type HolidaySettings = {
+  // Country of the bundled ruleset, or an empty string for none
+  country: string;
+  holidayCalendarId: string;
+  closureCalendarId: string;
+};
+
+// Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+export function easterSunday(year: number): Temporal.PlainDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Temporal.PlainDate.from({ year, month, day });
+}
+
+// The first date on or after from that falls on the given day of the week (1 is Monday)
+function nextWeekday(from: Temporal.PlainDate, dayOfWeek: number): Temporal.PlainDate {
+  return from.add({ days: (dayOfWeek - from.dayOfWeek + 7) % 7 });
+}
+
+type HolidayRule = (year: number) => [Temporal.PlainDate, string][];
+
+export const holidayRules: Record<string, { name: string; rule: HolidayRule }> = {
+  NO: {
+    name: "Norway",
+    rule: (year) => {
+      const easter = easterSunday(year);
+      const date = (month: number, day: number) => Temporal.PlainDate.from({ year, month, day });
+      return [
+        [date(1, 1), "Første nyttårsdag"],
+        [easter.subtract({ days: 3 }), "Skjærtorsdag"],
+        [easter.subtract({ days: 2 }), "Langfredag"],
+        [easter, "Første påskedag"],
+        [easter.add({ days: 1 }), "Andre påskedag"],
+        [date(5, 1), "Arbeidernes dag"],
+        [date(5, 17), "Grunnlovsdag"],
+        [easter.add({ days: 39 }), "Kristi himmelfartsdag"],
+        [easter.add({ days: 49 }), "Første pinsedag"],
+        [easter.add({ days: 50 }), "Andre pinsedag"],
+        [date(12, 25), "Første juledag"],
+        [date(12, 26), "Andre juledag"],
+      ];
+    },
+  },
+  SE: {
+    name: "Sweden",
+    rule: (year) => {
+      const easter = easterSunday(year);
+      const date = (month: number, day: number) => Temporal.PlainDate.from({ year, month, day });
+      const midsummerEve = nextWeekday(date(6, 19), 5);
+      return [
+        [date(1, 1), "Nyårsdagen"],
+        [date(1, 6), "Trettondedag jul"],
+        [easter.subtract({ days: 2 }), "Långfredagen"],
+        [easter, "Påskdagen"],
+        [easter.add({ days: 1 }), "Annandag påsk"],
+        [date(5, 1), "Första maj"],
+        [easter.add({ days: 39 }), "Kristi himmelsfärds dag"],
+        [easter.add({ days: 49 }), "Pingstdagen"],
+        [date(6, 6), "Sveriges nationaldag"],
+        [midsummerEve, "Midsommarafton"],
+        [midsummerEve.add({ days: 1 }), "Midsommardagen"],
+        [nextWeekday(date(10, 31), 6), "Alla helgons dag"],
+        [date(12, 24), "Julafton"],
+        [date(12, 25), "Juldagen"],
+        [date(12, 26), "Annandag jul"],
+        [date(12, 31), "Nyårsafton"],
+      ];
+    },
+  },
+  DK: {
+    name: "Denmark",
+    rule: (year) => {
+      const easter = easterSunday(year);
+      const date = (month: number, day: number) => Temporal.PlainDate.from({ year, month, day });
+      return [
+        [date(1, 1), "Nytårsdag"],
+        [easter.subtract({ days: 3 }), "Skærtorsdag"],
+        [easter.subtract({ days: 2 }), "Langfredag"],
+        [easter, "Påskedag"],
+        [easter.add({ days: 1 }), "Anden påskedag"],
+        [easter.add({ days: 39 }), "Kristi himmelfartsdag"],
+        [easter.add({ days: 49 }), "Pinsedag"],
+        [easter.add({ days: 50 }), "Anden pinsedag"],
+        [date(6, 5), "Grundlovsdag"],
+        [date(12, 24), "Juleaftensdag"],
+        [date(12, 25), "Juledag"],
+        [date(12, 26), "Anden juledag"],
+      ];
+    },
+  },
+};
+
+// Holidays from the bundled ruleset for every year touched by minDate through maxDate
+export function bundledHolidays(
+  country: string,
+  minDate: Temporal.PlainDate,
+  maxDate: Temporal.PlainDate
+): ClosedDay[] {
+  const rules = holidayRules[country];
+  if (!rules) {
+    return [];
+  }
+  const closedDays: ClosedDay[] = [];
+  for (let year = minDate.year; year <= maxDate.year; year++) {
+    for (const [date, name] of rules.rule(year)) {
+      if (
+        Temporal.PlainDate.compare(date, minDate) >= 0 &&
+        Temporal.PlainDate.compare(date, maxDate) <= 0
+      ) {
+        closedDays.push({ date: date.toString(), name, kind: "holiday" });
+      }
+    }
+  }
+  return closedDays;
+}
+
+// Guess the country of the bundled ruleset from the organisation's time zone
+export function defaultHolidayCountry(timeZone: string): string {
+  const countries: Record<string, string> = {
+    "Europe/Oslo": "NO",
+    "Europe/Stockholm": "SE",
+    "Europe/Copenhagen": "DK",
+  };
+  return import.meta.env.VITE_HOLIDAY_COUNTRY ?? countries[timeZone] ?? "";
+}
+
+export function holidaySettings(value: string | null, timeZone: string): HolidaySettings {
+  const settings: HolidaySettings = {
+    country: defaultHolidayCountry(timeZone),
+    holidayCalendarId: "",
+    closureCalendarId: import.meta.env.VITE_CLOSURE_CALENDAR_ID ?? "",
+  };
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (parsed && typeof parsed === "object") {
+        for (const key of ["country", "holidayCalendarId", "closureCalendarId"] as const) {
+          if (typeof parsed[key] === "string") {
+            settings[key] = parsed[key];
+          }
+        }
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return settings;
+}
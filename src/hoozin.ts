@@ -0,0 +1,1164 @@
+// Hoozin's state and how it is loaded from Google, without React so that it can also be used
+// outside the browser
+import { Temporal } from "temporal-polyfill";
+import { dateWindow, zonedDateTime } from "./dates.ts";
+import type { Group } from "./groups.ts";
+import type { ClosedDay } from "./holidays.ts";
+import {
+  errorDescription,
+  fetchPages,
+  GoogleApiError,
+  type CancelledCalendarEvent,
+  type FetchFn,
+  type GoogleCalendarEvent,
+  type GooglePerson,
+} from "./googleApi.ts";
+
+// Failed calendars keep a short description of what went wrong
+export type CalendarStatus = "loading" | "loaded" | { error: string };
+
+export type WorkLocation = "homeOffice" | "officeLocation" | "customLocation" | "away" | "unknown";
+
+export function workLocation(value: string | null): WorkLocation {
+  if (value === "homeOffice" || value === "officeLocation" || value === "unknown") {
+    return value;
+  }
+  return "unknown";
+}
+
+export function ignorePeople(value: string | null): Set<string> {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed) && parsed.every((item) => typeof item === "string")) {
+        return new Set(parsed);
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return new Set();
+}
+
+export type SyncTokens = {
+  people?: string;
+  calendars: Record<
+    string,
+    { syncToken: string; minDate: string; maxDate: string; timeZone: string }
+  >;
+};
+
+export type State = {
+  people: {
+    email: string;
+    name: string;
+    resourceName: string;
+  }[];
+  ignorePeople: Set<string>;
+  groups: Group[];
+  // Id of the group Hoozin is filtered by, everyone when null
+  group: string | null;
+  assumedLocation: WorkLocation;
+  // Building shown in the office column, all offices when null
+  office: string | null;
+  // Whether each person's calendar has arrived for the dates being shown
+  calendarStatus: Record<string, CalendarStatus>;
+  events: {
+    date: string;
+    personEmail: string;
+    location: WorkLocation;
+    // Which office or custom place, when the event says
+    building?: string;
+    floor?: string;
+    label?: string;
+    eventId: string;
+    // Set when the entry only covers part of the working day
+    start?: string;
+    end?: string;
+  }[];
+  syncTokens: SyncTokens;
+};
+
+export type SyncSnapshot = Pick<State, "people" | "events" | "syncTokens">;
+
+export function syncSnapshot(value: string | null): SyncSnapshot {
+  if (value) {
+    try {
+      const parsed = JSON.parse(value);
+      if (
+        parsed &&
+        Array.isArray(parsed.people) &&
+        Array.isArray(parsed.events) &&
+        parsed.syncTokens &&
+        typeof parsed.syncTokens.calendars === "object"
+      ) {
+        return parsed as SyncSnapshot;
+      }
+    } catch {
+      // Ignore invalid JSON
+    }
+  }
+  return { people: [], events: [], syncTokens: { calendars: {} } };
+}
+
+export type Action =
+  | {
+      type: "ADD_PERSON_EVENT";
+      email: string;
+      calendarEvent: GoogleCalendarEvent;
+      // Event times are stored as wall time in this time zone
+      timeZone: string;
+    }
+  | {
+      type: "REMOVE_PERSON_EVENT";
+      email: string;
+      eventId: string;
+    }
+  | {
+      type: "REPLACE_PERSON_DAY";
+      email: string;
+      date: string;
+      entries: State["events"];
+    }
+  | {
+      type: "PRUNE_PERSON_EVENTS";
+      email: string;
+      eventIds: string[];
+      minDate: string;
+      maxDate: string;
+    }
+  | {
+      type: "DISCOVERED_PERSON";
+      email: string;
+      name: string;
+      resourceName: string;
+    }
+  | {
+      type: "REMOVED_PERSON";
+      resourceName: string;
+    }
+  | {
+      type: "PRUNE_PEOPLE";
+      resourceNames: string[];
+    }
+  | {
+      type: "UPDATE_PEOPLE_SYNC_TOKEN";
+      syncToken: string;
+    }
+  | {
+      type: "UPDATE_CALENDAR_SYNC_TOKEN";
+      email: string;
+      syncToken: string;
+      minDate: string;
+      maxDate: string;
+      timeZone: string;
+    }
+  | {
+      type: "UPDATE_PREFERRED_LOCATION";
+      location: WorkLocation;
+    }
+  | {
+      type: "UPDATE_CALENDAR_STATUS";
+      email: string;
+      status: CalendarStatus;
+    }
+  | {
+      type: "RESET_CALENDAR_STATUS";
+    }
+  | {
+      type: "UPDATE_SELECTED_OFFICE";
+      office: string | null;
+    }
+  | {
+      type: "UPDATE_IGNORE_STATE";
+      email: string;
+      ignored: boolean;
+    }
+  | {
+      // Adds the group, or replaces the one with the same id
+      type: "SAVE_GROUP";
+      group: Group;
+    }
+  | {
+      type: "REMOVE_GROUP";
+      id: string;
+    }
+  | {
+      type: "UPDATE_GROUP_MEMBER";
+      id: string;
+      email: string;
+      member: boolean;
+    }
+  | {
+      type: "SELECT_GROUP";
+      id: string | null;
+    };
+
+export type Dispatch = (action: Action) => void;
+
+// Time outside of these hours does not affect where people are
+const workingHours = {
+  start: Temporal.PlainTime.from("09:00"),
+  end: Temporal.PlainTime.from("16:00"),
+};
+
+function dayPart(
+  date: Temporal.PlainDate,
+  start: Temporal.PlainDateTime,
+  end: Temporal.PlainDateTime
+): { start: string; end: string } | "allDay" | null {
+  const workStart = date.toPlainDateTime(workingHours.start);
+  const workEnd = date.toPlainDateTime(workingHours.end);
+  if (
+    Temporal.PlainDateTime.compare(start, workEnd) >= 0 ||
+    Temporal.PlainDateTime.compare(end, workStart) <= 0
+  ) {
+    return null;
+  }
+  if (
+    Temporal.PlainDateTime.compare(start, workStart) <= 0 &&
+    Temporal.PlainDateTime.compare(end, workEnd) >= 0
+  ) {
+    return "allDay";
+  }
+  const dayStart = date.toPlainDateTime();
+  const dayEnd = date.add({ days: 1 }).toPlainDateTime();
+  return {
+    start:
+      Temporal.PlainDateTime.compare(start, dayStart) > 0
+        ? start.toPlainTime().toString({ smallestUnit: "minute" })
+        : "00:00",
+    end:
+      Temporal.PlainDateTime.compare(end, dayEnd) < 0
+        ? end.toPlainTime().toString({ smallestUnit: "minute" })
+        : "24:00",
+  };
+}
+
+export type Place = Pick<State["events"][number], "location" | "building" | "floor" | "label">;
+
+function workingLocationPlace(
+  properties: (GoogleCalendarEvent & { eventType: "workingLocation" })["workingLocationProperties"]
+): Place {
+  const location = properties.type ?? "unknown";
+  if (location === "officeLocation" && properties.officeLocation) {
+    const { buildingId, floorId, label } = properties.officeLocation;
+    return { location, building: buildingId, floor: floorId, label };
+  } else if (location === "customLocation" && properties.customLocation) {
+    return { location, label: properties.customLocation.label };
+  }
+  return { location };
+}
+
+function timedEntries(
+  email: string,
+  eventId: string,
+  place: Place,
+  range: { start: { dateTime: string }; end: { dateTime: string } },
+  timeZone: string
+): State["events"] {
+  const entries: State["events"] = [];
+  const start = zonedDateTime(range.start.dateTime, timeZone).toPlainDateTime();
+  const end = zonedDateTime(range.end.dateTime, timeZone).toPlainDateTime();
+  let currentDate = start.toPlainDate();
+  while (Temporal.PlainDateTime.compare(currentDate.toPlainDateTime(), end) < 0) {
+    const part = dayPart(currentDate, start, end);
+    const entry = { date: currentDate.toString(), personEmail: email, ...place, eventId };
+    if (part === "allDay") {
+      entries.push(entry);
+    } else if (part) {
+      entries.push({ ...entry, start: part.start, end: part.end });
+    }
+    currentDate = currentDate.add({ days: 1 });
+  }
+  return entries;
+}
+
+function withoutPeople(currentState: State, keep: (person: State["people"][number]) => boolean) {
+  const people = currentState.people.filter(keep);
+  if (people.length === currentState.people.length) {
+    return currentState;
+  }
+  const emails = new Set(people.map((p) => p.email));
+  return {
+    events: currentState.events.filter((entry) => emails.has(entry.personEmail)),
+    ignorePeople: currentState.ignorePeople,
+    groups: currentState.groups,
+    group: currentState.group,
+    assumedLocation: currentState.assumedLocation,
+    office: currentState.office,
+    people,
+    calendarStatus: Object.fromEntries(
+      Object.entries(currentState.calendarStatus).filter(([email]) => emails.has(email))
+    ),
+    syncTokens: {
+      people: currentState.syncTokens.people,
+      calendars: Object.fromEntries(
+        Object.entries(currentState.syncTokens.calendars).filter(([email]) => emails.has(email))
+      ),
+    },
+  };
+}
+
+export function stateReducer(currentState: State, action: Action): State {
+  switch (action.type) {
+    case "ADD_PERSON_EVENT": {
+      const { email, calendarEvent, timeZone } = action;
+      // Drop whatever the event said before, it may have moved to other days
+      const newEvents = currentState.events.filter(
+        (entry) => entry.personEmail !== email || entry.eventId !== calendarEvent.id
+      );
+      if (calendarEvent.eventType === "workingLocation") {
+        const { start, end, workingLocationProperties } = calendarEvent;
+        const place = workingLocationPlace(workingLocationProperties);
+        if ("dateTime" in start && "dateTime" in end) {
+          newEvents.push(...timedEntries(email, calendarEvent.id, place, { start, end }, timeZone));
+        } else if ("date" in start && "date" in end) {
+          let currentDate = Temporal.PlainDate.from(start.date);
+          const endDate = Temporal.PlainDate.from(end.date);
+          while (Temporal.PlainDate.compare(currentDate, endDate) < 0) {
+            const dateString = currentDate.toString();
+            const index = newEvents.findIndex(
+              (entry) =>
+                entry.date === dateString &&
+                entry.personEmail === email &&
+                entry.location !== "away" &&
+                !entry.start
+            );
+            const stateEntry = {
+              date: dateString,
+              personEmail: email,
+              ...place,
+              eventId: calendarEvent.id,
+            };
+            if (index > -1) {
+              newEvents[index] = stateEntry;
+            } else {
+              newEvents.push(stateEntry);
+            }
+            currentDate = currentDate.add({ days: 1 });
+          }
+        }
+        return {
+          events: newEvents,
+          ignorePeople: currentState.ignorePeople,
+          groups: currentState.groups,
+          group: currentState.group,
+          assumedLocation: currentState.assumedLocation,
+          office: currentState.office,
+          calendarStatus: currentState.calendarStatus,
+          people: currentState.people,
+          syncTokens: currentState.syncTokens,
+        };
+      } else if (calendarEvent.eventType === "outOfOffice") {
+        newEvents.push(
+          ...timedEntries(email, calendarEvent.id, { location: "away" }, calendarEvent, timeZone)
+        );
+        return {
+          events: newEvents,
+          ignorePeople: currentState.ignorePeople,
+          groups: currentState.groups,
+          group: currentState.group,
+          assumedLocation: currentState.assumedLocation,
+          office: currentState.office,
+          calendarStatus: currentState.calendarStatus,
+          people: currentState.people,
+          syncTokens: currentState.syncTokens,
+        };
+      } else {
+        return currentState;
+      }
+    }
+    case "REMOVE_PERSON_EVENT": {
+      return {
+        events: currentState.events.filter(
+          (entry) => entry.personEmail !== action.email || entry.eventId !== action.eventId
+        ),
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "REPLACE_PERSON_DAY": {
+      return {
+        events: [
+          ...currentState.events.filter(
+            (entry) => entry.personEmail !== action.email || entry.date !== action.date
+          ),
+          ...action.entries,
+        ],
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "PRUNE_PERSON_EVENTS": {
+      const keep = new Set(action.eventIds);
+      return {
+        events: currentState.events.filter(
+          (entry) =>
+            entry.personEmail !== action.email ||
+            keep.has(entry.eventId) ||
+            entry.date < action.minDate ||
+            entry.date > action.maxDate
+        ),
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "DISCOVERED_PERSON": {
+      const person = { email: action.email, name: action.name, resourceName: action.resourceName };
+      const existing = currentState.people.find((p) => p.email === action.email);
+      if (
+        existing &&
+        existing.name === person.name &&
+        existing.resourceName === person.resourceName
+      ) {
+        return currentState;
+      }
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: existing
+          ? currentState.people.map((p) => (p === existing ? person : p))
+          : [...currentState.people, person],
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "REMOVED_PERSON": {
+      return withoutPeople(currentState, (p) => p.resourceName !== action.resourceName);
+    }
+    case "PRUNE_PEOPLE": {
+      const keep = new Set(action.resourceNames);
+      return withoutPeople(currentState, (p) => keep.has(p.resourceName));
+    }
+    case "UPDATE_PEOPLE_SYNC_TOKEN": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: {
+          people: action.syncToken,
+          calendars: currentState.syncTokens.calendars,
+        },
+      };
+    }
+    case "UPDATE_CALENDAR_SYNC_TOKEN": {
+      const { email, syncToken, minDate, maxDate, timeZone } = action;
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: {
+          people: currentState.syncTokens.people,
+          calendars: {
+            ...currentState.syncTokens.calendars,
+            [email]: { syncToken, minDate, maxDate, timeZone },
+          },
+        },
+      };
+    }
+    case "UPDATE_PREFERRED_LOCATION": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: action.location,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "UPDATE_CALENDAR_STATUS": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: { ...currentState.calendarStatus, [action.email]: action.status },
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "RESET_CALENDAR_STATUS": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: {},
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "UPDATE_SELECTED_OFFICE": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: action.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "UPDATE_IGNORE_STATE": {
+      let newIgnoreList = Array.from(currentState.ignorePeople);
+      if (action.ignored) {
+        // Remove from ignore list
+        newIgnoreList = newIgnoreList.filter((email) => email !== action.email);
+      } else {
+        newIgnoreList = [...newIgnoreList, action.email];
+      }
+      return {
+        events: currentState.events,
+        ignorePeople: new Set(newIgnoreList),
+        groups: currentState.groups,
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "SAVE_GROUP": {
+      const exists = currentState.groups.some((group) => group.id === action.group.id);
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: exists
+          ? currentState.groups.map((group) =>
+              group.id === action.group.id ? action.group : group
+            )
+          : [...currentState.groups, action.group],
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "REMOVE_GROUP": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups.filter((group) => group.id !== action.id),
+        group: currentState.group === action.id ? null : currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "UPDATE_GROUP_MEMBER": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups.map((group) =>
+          group.id === action.id
+            ? {
+                ...group,
+                members: action.member
+                  ? [...group.members.filter((email) => email !== action.email), action.email]
+                  : group.members.filter((email) => email !== action.email),
+              }
+            : group
+        ),
+        group: currentState.group,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    case "SELECT_GROUP": {
+      return {
+        events: currentState.events,
+        ignorePeople: currentState.ignorePeople,
+        groups: currentState.groups,
+        group: action.id,
+        assumedLocation: currentState.assumedLocation,
+        office: currentState.office,
+        calendarStatus: currentState.calendarStatus,
+        people: currentState.people,
+        syncTokens: currentState.syncTokens,
+      };
+    }
+    default:
+      return currentState;
+  }
+}
+
+export async function fetchHoozinData(
+  fetchWithCache: FetchFn,
+  dispatch: Dispatch,
+  options: {
+    minDate: Temporal.PlainDate;
+    maxDate: Temporal.PlainDate;
+    timeZone: string;
+    known: Pick<State, "people" | "syncTokens">;
+    // Stops fetching calendars when the window is no longer shown
+    signal?: AbortSignal;
+  }
+) {
+  const { known } = options;
+  dispatch({ type: "RESET_CALENDAR_STATUS" });
+  const url = new URL("https://content-people.googleapis.com/v1/people:listDirectoryPeople");
+  url.searchParams.set("readMask", "names,emailAddresses,calendarUrls");
+  url.searchParams.set("sources", "DIRECTORY_SOURCE_TYPE_DOMAIN_PROFILE");
+  url.searchParams.set("pageSize", "100");
+  url.searchParams.set("requestSyncToken", "true");
+
+  type DirectoryPage = { people?: GooglePerson[]; nextPageToken?: string; nextSyncToken?: string };
+
+  if (known.syncTokens.people) {
+    // Only changed people are returned, so start from the ones we already know about
+    const emails = new Map(known.people.map((p) => [p.resourceName, p.email]));
+    const incrementalUrl = new URL(url);
+    incrementalUrl.searchParams.set("syncToken", known.syncTokens.people);
+
+    let expired = false;
+    try {
+      for await (const page of fetchPages<DirectoryPage>(fetchWithCache, incrementalUrl)) {
+        for (const person of page.people ?? []) {
+          if (person.metadata?.deleted) {
+            dispatch({ type: "REMOVED_PERSON", resourceName: person.resourceName });
+            emails.delete(person.resourceName);
+            continue;
+          }
+          const discovered = discoveredPerson(person);
+          if (discovered) {
+            dispatch(discovered);
+            emails.set(discovered.resourceName, discovered.email);
+          }
+        }
+        if (page.nextSyncToken) {
+          dispatch({ type: "UPDATE_PEOPLE_SYNC_TOKEN", syncToken: page.nextSyncToken });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof GoogleApiError && error.kind === "expiredSyncToken")) {
+        throw error;
+      }
+      console.warn("People sync token expired, doing a full sync");
+      expired = true;
+    }
+
+    if (!expired) {
+      await Promise.all(
+        Array.from(emails.values()).map((email) =>
+          loadPersonEvents(fetchWithCache, dispatch, email, options)
+        )
+      );
+      return;
+    }
+  }
+
+  const resourceNames: string[] = [];
+  // Calendars load while the next directory page is fetched, the scheduler limits the pace
+  const loading: Promise<void>[] = [];
+  for await (const page of fetchPages<DirectoryPage>(fetchWithCache, url)) {
+    const emails: string[] = [];
+    for (const person of page.people ?? []) {
+      const discovered = discoveredPerson(person);
+      if (!discovered) {
+        continue;
+      }
+      dispatch(discovered);
+      resourceNames.push(discovered.resourceName);
+      emails.push(discovered.email);
+    }
+
+    for (const email of emails) {
+      loading.push(loadPersonEvents(fetchWithCache, dispatch, email, options));
+    }
+
+    if (page.nextSyncToken) {
+      dispatch({ type: "PRUNE_PEOPLE", resourceNames });
+      dispatch({ type: "UPDATE_PEOPLE_SYNC_TOKEN", syncToken: page.nextSyncToken });
+    }
+  }
+  await Promise.all(loading);
+}
+
+async function loadPersonEvents(
+  fetchWithCache: FetchFn,
+  dispatch: Dispatch,
+  email: string,
+  options: Parameters<typeof fetchPersonEvents>[3]
+) {
+  if (options.signal?.aborted) {
+    return;
+  }
+  dispatch({ type: "UPDATE_CALENDAR_STATUS", email, status: "loading" });
+  try {
+    await fetchPersonEvents(fetchWithCache, dispatch, email, options);
+    dispatch({ type: "UPDATE_CALENDAR_STATUS", email, status: "loaded" });
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      console.error("Could not load calendar for", email, error);
+      dispatch({
+        type: "UPDATE_CALENDAR_STATUS",
+        email,
+        status: { error: errorDescription(error) },
+      });
+    }
+  }
+}
+
+function discoveredPerson(
+  person: GooglePerson
+): Extract<Action, { type: "DISCOVERED_PERSON" }> | null {
+  const email = person.emailAddresses?.find((e) => e.metadata?.primary)?.value;
+  if (!email) {
+    return null;
+  }
+  const name = person.names?.find((n) => n.metadata?.primary)?.displayName || email;
+  return { type: "DISCOVERED_PERSON", email, name, resourceName: person.resourceName };
+}
+
+async function fetchPersonEvents(
+  fetchWithCache: FetchFn,
+  dispatch: Dispatch,
+  email: string,
+  options: {
+    minDate: Temporal.PlainDate;
+    maxDate: Temporal.PlainDate;
+    timeZone: string;
+    known: Pick<State, "syncTokens">;
+    signal?: AbortSignal;
+  }
+) {
+  const { timeZone, signal } = options;
+  const minDate = options.minDate.toString();
+  const maxDate = options.maxDate.toString();
+  const url = new URL(
+    `https://content.googleapis.com/calendar/v3/calendars/${encodeURIComponent(email)}/events`
+  );
+  url.searchParams.append("eventTypes", "workingLocation");
+  url.searchParams.append("eventTypes", "outOfOffice");
+  url.searchParams.set("maxResults", "100");
+  url.searchParams.set("showHiddenInvitations", "false");
+  url.searchParams.set("singleEvents", "true");
+  url.searchParams.set("timeZone", timeZone);
+
+  type EventsPage = {
+    items?: (GoogleCalendarEvent | CancelledCalendarEvent)[];
+    nextPageToken?: string;
+    nextSyncToken?: string;
+  };
+
+  // A sync token only covers the window and time zone it was created for
+  const known = options.known.syncTokens.calendars[email];
+  if (
+    known &&
+    known.minDate <= minDate &&
+    known.maxDate >= maxDate &&
+    known.timeZone === timeZone
+  ) {
+    const incrementalUrl = new URL(url);
+    incrementalUrl.searchParams.set("syncToken", known.syncToken);
+
+    let expired = false;
+    try {
+      for await (const page of fetchPages<EventsPage>(fetchWithCache, incrementalUrl, {
+        signal,
+      })) {
+        for (const calendarEvent of page.items ?? []) {
+          if (calendarEvent.status === "cancelled") {
+            dispatch({ type: "REMOVE_PERSON_EVENT", email, eventId: calendarEvent.id });
+          } else {
+            dispatch({ type: "ADD_PERSON_EVENT", email, calendarEvent, timeZone });
+          }
+        }
+        if (page.nextSyncToken) {
+          dispatch({
+            type: "UPDATE_CALENDAR_SYNC_TOKEN",
+            email,
+            syncToken: page.nextSyncToken,
+            minDate: known.minDate,
+            maxDate: known.maxDate,
+            timeZone,
+          });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof GoogleApiError && error.kind === "expiredSyncToken")) {
+        throw error;
+      }
+      console.warn("Calendar sync token expired for", email);
+      expired = true;
+    }
+    if (!expired) {
+      return;
+    }
+  }
+
+  url.searchParams.set("orderBy", "updated");
+  url.searchParams.set("showDeleted", "false");
+  const { timeMin, timeMax } = dateWindow(options.minDate, options.maxDate, timeZone);
+  url.searchParams.set("timeMin", timeMin);
+  url.searchParams.set("timeMax", timeMax);
+
+  const eventIds: string[] = [];
+  for await (const page of fetchPages<EventsPage>(fetchWithCache, url, { signal })) {
+    for (const calendarEvent of page.items ?? []) {
+      if (calendarEvent.status === "cancelled") {
+        continue;
+      }
+      dispatch({ type: "ADD_PERSON_EVENT", email, calendarEvent, timeZone });
+      eventIds.push(calendarEvent.id);
+    }
+    if (page.nextSyncToken) {
+      dispatch({ type: "PRUNE_PERSON_EVENTS", email, eventIds, minDate, maxDate });
+      dispatch({
+        type: "UPDATE_CALENDAR_SYNC_TOKEN",
+        email,
+        syncToken: page.nextSyncToken,
+        minDate,
+        maxDate,
+        timeZone,
+      });
+    }
+  }
+}
+
+export type MyLocation = "officeLocation" | "homeOffice" | "away";
+
+// Makes the user's own calendar say where they are on a day, or clears it when location is
+// null. The reducer is updated up front and restored if any of the writes fail.
+export async function updateMyLocation(
+  send: FetchFn,
+  dispatch: Dispatch,
+  options: {
+    email: string;
+    date: Temporal.PlainDate;
+    location: MyLocation | null;
+    events: State["events"];
+    office: string | null;
+    timeZone: string;
+  }
+) {
+  const { email, location, events, office, timeZone } = options;
+  const date = options.date.toString();
+  const calendarUrl = "https://content.googleapis.com/calendar/v3/calendars/primary/events";
+
+  const dayEntries = events.filter((entry) => entry.personEmail === email && entry.date === date);
+  // Events spanning other days as well are left alone
+  const onlyThisDay = (eventId: string) =>
+    events.every((entry) => entry.eventId !== eventId || entry.date === date);
+  const working = dayEntries.find((entry) => !entry.start && entry.location !== "away");
+  const away = dayEntries.filter(
+    (entry) => !entry.start && entry.location === "away" && onlyThisDay(entry.eventId)
+  );
+
+  const pendingId = `pending-${crypto.randomUUID()}`;
+  const optimistic = dayEntries.filter((entry) => {
+    if (entry === working) {
+      // Being away keeps the working location underneath
+      return location === "away" || (!location && !onlyThisDay(entry.eventId));
+    }
+    return location === "away" || !away.includes(entry);
+  });
+  if (location) {
+    optimistic.push({ date, personEmail: email, location, eventId: pendingId });
+  }
+  dispatch({ type: "REPLACE_PERSON_DAY", email, date, entries: optimistic });
+
+  try {
+    const saved: GoogleCalendarEvent[] = [];
+    if (location !== "away") {
+      for (const entry of away) {
+        await send(`${calendarUrl}/${encodeURIComponent(entry.eventId)}`, { method: "DELETE" });
+      }
+    }
+
+    if (location === "away") {
+      if (!dayEntries.some((entry) => !entry.start && entry.location === "away")) {
+        const start = options.date.toZonedDateTime({ timeZone });
+        saved.push(
+          await send(calendarUrl, {
+            method: "POST",
+            body: JSON.stringify({
+              eventType: "outOfOffice",
+              summary: "Out of office",
+              start: { dateTime: start.toString({ timeZoneName: "never" }), timeZone },
+              end: {
+                dateTime: start.add({ days: 1 }).toString({ timeZoneName: "never" }),
+                timeZone,
+              },
+              outOfOfficeProperties: { autoDeclineMode: "declineNone" },
+              transparency: "opaque",
+            }),
+          })
+        );
+      }
+    } else if (location) {
+      const workingLocationProperties =
+        location === "officeLocation"
+          ? { type: location, officeLocation: office ? { buildingId: office } : {} }
+          : { type: location, homeOffice: {} };
+      if (working && onlyThisDay(working.eventId)) {
+        saved.push(
+          await send(`${calendarUrl}/${encodeURIComponent(working.eventId)}`, {
+            method: "PATCH",
+            body: JSON.stringify({ workingLocationProperties }),
+          })
+        );
+      } else {
+        saved.push(
+          await send(calendarUrl, {
+            method: "POST",
+            body: JSON.stringify({
+              eventType: "workingLocation",
+              start: { date },
+              end: { date: options.date.add({ days: 1 }).toString() },
+              visibility: "public",
+              transparency: "transparent",
+              workingLocationProperties,
+            }),
+          })
+        );
+      }
+    } else if (working && onlyThisDay(working.eventId)) {
+      await send(`${calendarUrl}/${encodeURIComponent(working.eventId)}`, { method: "DELETE" });
+    }
+
+    dispatch({ type: "REMOVE_PERSON_EVENT", email, eventId: pendingId });
+    for (const calendarEvent of saved) {
+      dispatch({ type: "ADD_PERSON_EVENT", email, calendarEvent, timeZone });
+    }
+  } catch (error) {
+    dispatch({ type: "REPLACE_PERSON_DAY", email, date, entries: dayEntries });
+    throw error;
+  }
+}
+
+export async function fetchClosedDays(
+  fetchWithCache: FetchFn,
+  calendarId: string,
+  kind: ClosedDay["kind"],
+  options: { minDate: Temporal.PlainDate; maxDate: Temporal.PlainDate; timeZone: string }
+): Promise<ClosedDay[]> {
+  const url = new URL(
+    `https://content.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`
+  );
+  url.searchParams.set("maxResults", "250");
+  url.searchParams.set("orderBy", "startTime");
+  url.searchParams.set("singleEvents", "true");
+  const { timeMin, timeMax } = dateWindow(options.minDate, options.maxDate, options.timeZone);
+  url.searchParams.set("timeMin", timeMin);
+  url.searchParams.set("timeMax", timeMax);
+  url.searchParams.set("timeZone", options.timeZone);
+
+  type ClosedDaysPage = {
+    items?: {
+      summary: string;
+      description?: string;
+      start: { date?: string };
+      end: { date?: string };
+    }[];
+    nextPageToken?: string;
+  };
+
+  const closedDays: ClosedDay[] = [];
+  for await (const page of fetchPages<ClosedDaysPage>(fetchWithCache, url)) {
+    for (const event of page.items ?? []) {
+      // Holiday calendars also list observances, which are normal working days
+      if (!event.start.date || !event.end.date || event.description?.startsWith("Observance")) {
+        continue;
+      }
+      let currentDate = Temporal.PlainDate.from(event.start.date);
+      const endDate = Temporal.PlainDate.from(event.end.date);
+      while (Temporal.PlainDate.compare(currentDate, endDate) < 0) {
+        closedDays.push({ date: currentDate.toString(), name: event.summary, kind });
+        currentDate = currentDate.add({ days: 1 });
+      }
+    }
+  }
+  return closedDays;
+}
+
+export const locationLabels: Record<WorkLocation, string> = {
+  officeLocation: "in the office",
+  homeOffice: "working from home",
+  customLocation: "working elsewhere",
+  away: "out of office",
+  unknown: "not decided yet",
+};
+
+export function placeLabel(place: Place): string {
+  if (place.location === "officeLocation" && (place.label || place.building)) {
+    return `in the office at ${place.label || place.building}`;
+  } else if (place.location === "customLocation" && place.label) {
+    return `at ${place.label}`;
+  }
+  return locationLabels[place.location];
+}
+
+// Names of the office buildings in the events by building ID, the ID itself when none was given
+export function officeBuildings(events: State["events"]): Map<string, string> {
+  const buildings = new Map<string, string>();
+  for (const { location, building, label } of events) {
+    if (location === "officeLocation" && building && (label || !buildings.has(building))) {
+      buildings.set(building, label || building);
+    }
+  }
+  return buildings;
+}
+
+export function displayName(name: string, people: { name: string }[]) {
+  let result = name;
+
+  const lastNameInitial = name.split(" ")[1]?.[0];
+  if (people.filter((p) => p.name.split(" ")[0] === name.split(" ")[0]).length === 1) {
+    // If no-one has the same first name, just show first name
+    result = name.split(" ")[0];
+  } else if (
+    // If the first letter of the last name is unique, show first name and first letter of last name
+    lastNameInitial &&
+    people.filter((p) => p.name.split(" ")[1]?.[0] === lastNameInitial).length === 1
+  ) {
+    result = `${name.split(" ")[0]} ${lastNameInitial}.`;
+  }
+
+  return result;
+}
+
+export type PersonSummary = {
+  email: string;
+  name: string;
+  // Where they are, for instance "in the office at HQ 12:00–16:00"
+  description: string;
+  partDay: boolean;
+};
+
+export type DaySummary = {
+  // People by work location, at least officeLocation, homeOffice and away
+  byStatus: Record<string, PersonSummary[]>;
+  // Other offices and custom locations, keyed by what is shown as their title
+  elsewhere: Map<string, PersonSummary[]>;
+  // People whose calendars have not arrived yet, as opposed to people without events
+  loading: string[];
+  // People whose calendars could not be loaded, with the reason
+  failed: string[];
+};
+
+// Who is where on a day, leaving out ignored people and people outside the selected group
+export function daySummary(state: State, date: Temporal.PlainDate): DaySummary {
+  const group = state.groups.find((group) => group.id === state.group);
+  const members = group ? new Set(group.members) : null;
+  const entriesForDate = state.events.filter(
+    (entry) => entry.date === date.toString() && !state.ignorePeople.has(entry.personEmail)
+  );
+
+  const byStatus: Record<string, PersonSummary[]> = {
+    officeLocation: [],
+    homeOffice: [],
+    away: [],
+  };
+  const elsewhere = new Map<string, PersonSummary[]>();
+  const buildings = officeBuildings(state.events);
+  const loading: string[] = [];
+  const failed: string[] = [];
+  for (const person of state.people) {
+    if (state.ignorePeople.has(person.email)) continue;
+    if (members && !members.has(person.email)) continue;
+    const entries = entriesForDate.filter((entry) => entry.personEmail === person.email);
+    const status = state.calendarStatus[person.email];
+    if (entries.length === 0 && typeof status === "object") {
+      failed.push(`${displayName(person.name, state.people)}: ${status.error}`);
+      continue;
+    } else if (entries.length === 0 && status !== "loaded") {
+      loading.push(displayName(person.name, state.people));
+      continue;
+    }
+    const allDay = entries.find((entry) => !entry.start && entry.location !== "away");
+    const timed = entries
+      .filter((entry) => entry.start)
+      .sort((a, b) => (a.start! < b.start! ? -1 : 1));
+    const timedPlaces = timed.filter((entry) => entry.location !== "away");
+
+    // Being in the office for a part of the day is what matters for the headcount
+    const place: Place = timedPlaces.find((entry) => entry.location === "officeLocation") ??
+      timedPlaces[0] ??
+      allDay ?? { location: state.assumedLocation };
+    const away = entries.some((entry) => !entry.start && entry.location === "away");
+
+    const description = [
+      ...(allDay || timedPlaces.length === 0 ? [placeLabel(allDay ?? place)] : []),
+      ...timed.map((entry) => `${placeLabel(entry)} ${entry.start}–${entry.end}`),
+    ].join(", ");
+    const summary = {
+      email: person.email,
+      name: person.name,
+      description: away ? locationLabels.away : description,
+      partDay: !away && timed.length > 0,
+    };
+
+    if (away) {
+      byStatus["away"].push(summary);
+    } else if (
+      place.location === "officeLocation" &&
+      place.building &&
+      state.office &&
+      place.building !== state.office
+    ) {
+      const title = `Office ${buildings.get(place.building) ?? place.building}`;
+      elsewhere.set(title, [...(elsewhere.get(title) ?? []), summary]);
+    } else if (place.location === "customLocation") {
+      const title = place.label || "Elsewhere";
+      elsewhere.set(title, [...(elsewhere.get(title) ?? []), summary]);
+    } else {
+      if (!byStatus[place.location]) {
+        byStatus[place.location] = [];
+      }
+      byStatus[place.location].push(summary);
+    }
+  }
+
+  return { byStatus, elsewhere, loading, failed };
+}
@@ -0,0 +1,106 @@
+import { Temporal } from "temporal-polyfill";
+
+// Everything that can be shared as a link, as in "#/hoozin/2026-10-20?weeks=2&office=OSL"
+export type Route =
+  | {
+      view: "hoozin";
+      // First day shown, or null to start from today
+      date: Temporal.PlainDate | null;
+      weeks?: 1 | 2 | 4;
+      // Building shown in the office column, the user's own choice when not set
+      office?: string;
+    }
+  | { view: "person"; email: string }
+  | { view: "settings" }
+  | {
+      view: "wazzap";
+      // Set for the wall display of a single room
+      room: string | null;
+      layout?: "cards" | "timeline";
+      // Day shown in the timeline, today when null
+      date?: Temporal.PlainDate | null;
+    };
+
+function plainDate(value: string | null | undefined): Temporal.PlainDate | null {
+  if (value && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    try {
+      return Temporal.PlainDate.from(value);
+    } catch {
+      // Ignore invalid dates
+    }
+  }
+  return null;
+}
+
+function weeksParam(value: string | null): 1 | 2 | 4 | undefined {
+  if (value === "1" || value === "2" || value === "4") {
+    return Number(value) as 1 | 2 | 4;
+  }
+  return undefined;
+}
+
+// Reads a route from location.hash. Links from before routes started with "#/" still work.
+export function parseRoute(hash: string): Route {
+  const [path, query = ""] = hash.replace(/^#\/?/, "").split("?");
+  const params = new URLSearchParams(query);
+  const [view, ...rest] = path.split("/");
+  const argument = rest.length > 0 ? decodeURIComponent(rest.join("/")) : null;
+
+  switch (view.toLowerCase()) {
+    case "person":
+      if (argument) {
+        return { view: "person", email: argument };
+      }
+      break;
+    case "settings":
+      return { view: "settings" };
+    case "wazzap":
+      return {
+        view: "wazzap",
+        room: argument,
+        layout: params.get("layout") === "timeline" ? "timeline" : undefined,
+        date: plainDate(params.get("date")),
+      };
+  }
+  return {
+    view: "hoozin",
+    date: plainDate(view.toLowerCase() === "hoozin" ? argument : null),
+    weeks: weeksParam(params.get("weeks")),
+    office: params.get("office") || undefined,
+  };
+}
+
+// The hash of a route, leaving out whatever is the default
+export function routeHash(route: Route): string {
+  const params = new URLSearchParams();
+  let path: string;
+  switch (route.view) {
+    case "hoozin":
+      path = route.date ? `hoozin/${route.date}` : "hoozin";
+      if (route.weeks) {
+        params.set("weeks", route.weeks.toString());
+      }
+      if (route.office) {
+        params.set("office", route.office);
+      }
+      break;
+    case "person":
+      // Addresses read better with their @ left as it is
+      path = `person/${encodeURIComponent(route.email).replace("%40", "@")}`;
+      break;
+    case "settings":
+      path = "settings";
+      break;
+    case "wazzap":
+      path = route.room ? `wazzap/${encodeURIComponent(route.room)}` : "wazzap";
+      if (route.layout === "timeline") {
+        params.set("layout", "timeline");
+      }
+      if (route.date) {
+        params.set("date", route.date.toString());
+      }
+      break;
+  }
+  const query = params.toString();
+  return `#/${path}${query ? `?${query}` : ""}`;
+}
@@ -0,0 +1,58 @@
+export type Scheduler = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs tasks in order with at most `concurrency` at a time, and starts no more than
+// `ratePerSecond` on average with bursts of up to `burst` (a token bucket)
+export function createScheduler(options: {
+  concurrency: number;
+  ratePerSecond: number;
+  burst: number;
+}): Scheduler {
+  const { concurrency, ratePerSecond, burst } = options;
+  const queue: (() => void)[] = [];
+  let running = 0;
+  let tokens = burst;
+  let refilledAt = performance.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function refill() {
+    const now = performance.now();
+    tokens = Math.min(burst, tokens + ((now - refilledAt) / 1000) * ratePerSecond);
+    refilledAt = now;
+  }
+
+  function next() {
+    if (timer) {
+      return;
+    }
+    while (queue.length > 0 && running < concurrency) {
+      refill();
+      if (tokens < 1) {
+        const wait = ((1 - tokens) / ratePerSecond) * 1000;
+        timer = setTimeout(() => {
+          timer = null;
+          next();
+        }, wait);
+        return;
+      }
+      tokens -= 1;
+      running++;
+      queue.shift()!();
+    }
+  }
+
+  return function schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        // A task that throws before returning its promise still has to give back its slot
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            running--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
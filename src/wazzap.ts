@@ -0,0 +1,501 @@
+import { Temporal } from "temporal-polyfill";
+import { dateWindow, upcomingWindow, zonedDateTime } from "./dates.ts";
+import {
+  errorDescription,
+  fetchPages,
+  type FetchFn,
+  type GoogleCalendarEvent,
+} from "./googleApi.ts";
+
+export type Room = {
+  calendarId: string;
+  name: string;
+  maxAttendance?: number;
+  // The rest is only known when the rooms come from the Admin Directory
+  building?: string;
+  floor?: string;
+  // Such as "VC" and "Whiteboard"
+  features?: string[];
+  description?: string;
+};
+
+export type RoomInformation = Room & {
+  events: {
+    id: string;
+    start: Temporal.ZonedDateTime;
+    end: Temporal.ZonedDateTime;
+    title: string;
+    // The event in Google Calendar, when the user is allowed to see it
+    link?: string;
+  }[];
+  // Why the room's calendar could not be loaded
+  error?: string;
+};
+
+const resourcesUrl =
+  "https://admin.googleapis.com/admin/directory/v1/customer/my_customer/resources";
+
+// The organisation's meeting rooms from the Admin Directory. Reading resources needs a privilege
+// many users do not have.
+async function fetchDirectoryRooms(fetchWithCache: FetchFn): Promise<Room[]> {
+  const buildings = new Map<string, string>();
+  try {
+    for await (const page of fetchPages<{
+      buildings?: { buildingId: string; buildingName?: string }[];
+      nextPageToken?: string;
+    }>(fetchWithCache, new URL(`${resourcesUrl}/buildings?maxResults=500`))) {
+      for (const building of page.buildings ?? []) {
+        buildings.set(building.buildingId, building.buildingName || building.buildingId);
+      }
+    }
+  } catch (error) {
+    console.warn("Could not load buildings, showing their IDs", error);
+  }
+
+  const rooms: Room[] = [];
+  for await (const page of fetchPages<{
+    items?: {
+      resourceEmail: string;
+      resourceName: string;
+      resourceCategory?: "CONFERENCE_ROOM" | "OTHER" | "CATEGORY_UNKNOWN";
+      capacity?: number;
+      buildingId?: string;
+      floorName?: string;
+      featureInstances?: { feature: { name: string } }[];
+      userVisibleDescription?: string;
+    }[];
+    nextPageToken?: string;
+  }>(fetchWithCache, new URL(`${resourcesUrl}/calendars?maxResults=500`))) {
+    for (const resource of page.items ?? []) {
+      if (resource.resourceCategory === "OTHER") {
+        continue;
+      }
+      rooms.push({
+        calendarId: resource.resourceEmail,
+        name: resource.resourceName,
+        maxAttendance: resource.capacity || undefined,
+        building: resource.buildingId
+          ? buildings.get(resource.buildingId) ?? resource.buildingId
+          : undefined,
+        floor: resource.floorName || undefined,
+        features: resource.featureInstances?.map((instance) => instance.feature.name) ?? [],
+        description: resource.userVisibleDescription || undefined,
+      });
+    }
+  }
+  return rooms.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Where rooms are read from. The Admin Directory needs a scope that not everyone grants, so
+// it can be skipped to go straight to the calendar list.
+export type RoomSource = { directory: boolean };
+
+// The meeting rooms, from the Admin Directory when the user may read it and otherwise from the
+// rooms in their calendar list
+export async function fetchRooms(
+  fetchWithCache: FetchFn,
+  source: RoomSource = { directory: true }
+): Promise<Room[]> {
+  if (source.directory) {
+    try {
+      const rooms = await fetchDirectoryRooms(fetchWithCache);
+      if (rooms.length > 0) {
+        return rooms;
+      }
+    } catch (error) {
+      console.warn("Could not read rooms from the directory, using the calendar list", error);
+    }
+  }
+  return fetchSubscribedRooms(fetchWithCache);
+}
+
+// The rooms in the user's calendar list, with the "(N)" seat count taken off their names
+async function fetchSubscribedRooms(fetchWithCache: FetchFn): Promise<Room[]> {
+  const url = new URL("https://www.googleapis.com/calendar/v3/users/me/calendarList");
+  url.searchParams.set("minAccessRole", "reader");
+  const data: {
+    items: {
+      id: string;
+      summary: string;
+    }[];
+  } = await fetchWithCache(url);
+
+  const rooms: Room[] = [];
+  for (const calendar of data.items) {
+    // Check if part of resource.google.com domain
+    if (!calendar.id.endsWith("@resource.calendar.google.com")) {
+      continue;
+    }
+    let name = calendar.summary;
+
+    // Check if name has parenthesis with a number
+    const match = name.match(/\((\d+)\)$/);
+    let maxAttendance: number | undefined;
+    if (match) {
+      maxAttendance = parseInt(match[1], 10);
+      name = name.replace(/\(\d+\)$/, "").trim();
+    }
+
+    if (maxAttendance) {
+      rooms.push({ calendarId: calendar.id, name, maxAttendance });
+    } else {
+      rooms.push({ calendarId: calendar.id, name });
+    }
+  }
+
+  // If the rooms share a prefix, remove the prefix
+  const roomNames = rooms.map((room) => room.name);
+  if (roomNames.length > 1) {
+    let prefix = roomNames[0];
+    for (const name of roomNames.slice(1)) {
+      let i = 0;
+      while (i < prefix.length && i < name.length && prefix[i] === name[i]) {
+        i++;
+      }
+      prefix = prefix.slice(0, i);
+      if (!prefix) {
+        break;
+      }
+    }
+    if (prefix) {
+      // Remove trailing non-alphanumeric characters
+      prefix = prefix.replace(/[^a-zA-Z0-9-]+$/, "");
+      if (prefix.length >= 3) {
+        for (const room of rooms) {
+          if (room.name.startsWith(prefix)) {
+            room.name = room.name.slice(prefix.length).trim();
+          }
+        }
+      }
+    }
+  }
+  return rooms;
+}
+
+// A room's bookings in the window, or the reason they could not be loaded
+export async function fetchRoomEvents(
+  fetchWithCache: FetchFn,
+  room: Room,
+  options: { timeMin: string; timeMax: string; timeZone: string; maxResults?: number }
+): Promise<RoomInformation> {
+  const { calendarId, name } = room;
+  const { timeMin, timeMax, timeZone, maxResults = 10 } = options;
+  const events: RoomInformation["events"] = [];
+  const url = new URL(
+    `https://content.googleapis.com/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`
+  );
+  url.searchParams.set("eventTypes", "default");
+  url.searchParams.set("maxResults", maxResults.toString());
+  url.searchParams.set("orderBy", "startTime");
+  url.searchParams.set("showDeleted", "false");
+  url.searchParams.set("showHiddenInvitations", "false");
+  url.searchParams.set("singleEvents", "true");
+  url.searchParams.set("timeMax", timeMax);
+  url.searchParams.set("timeMin", timeMin);
+  url.searchParams.set("timeZone", timeZone);
+
+  let error: string | undefined;
+  try {
+    const response: {
+      items: (GoogleCalendarEvent & { eventType: "default"; htmlLink?: string })[];
+    } = await fetchWithCache(url);
+    for (const event of response.items) {
+      events.push({
+        id: event.id,
+        start: zonedDateTime(event.start.dateTime, timeZone),
+        end: zonedDateTime(event.end.dateTime, timeZone),
+        title: event.summary,
+        link: event.htmlLink,
+      });
+    }
+  } catch (e) {
+    console.error("Could not load events for", name, e);
+    error = errorDescription(e);
+  }
+
+  return { ...room, events, error };
+}
+
+export async function fetchWazzupData(
+  fetchWithCache: FetchFn,
+  timeZone: string,
+  source?: RoomSource
+): Promise<RoomInformation[]> {
+  const rooms: RoomInformation[] = [];
+  for (const room of await fetchRooms(fetchWithCache, source)) {
+    rooms.push(
+      await fetchRoomEvents(fetchWithCache, room, {
+        ...upcomingWindow({ weeks: 1 }, timeZone),
+        timeZone,
+      })
+    );
+  }
+  return rooms;
+}
+
+// Every booking of every room on one day, for the timeline
+export async function fetchRoomDay(
+  fetchWithCache: FetchFn,
+  date: Temporal.PlainDate,
+  timeZone: string,
+  source?: RoomSource
+): Promise<RoomInformation[]> {
+  const rooms = await fetchRooms(fetchWithCache, source);
+  return Promise.all(
+    rooms.map((room) =>
+      fetchRoomEvents(fetchWithCache, room, {
+        ...dateWindow(date, date, timeZone),
+        timeZone,
+        maxResults: 250,
+      })
+    )
+  );
+}
+
+// Rooms grouped by building and floor, like "HQ, floor 2". Rooms without either come last.
+export function roomGroups<T extends Room>(rooms: T[]): { title: string; rooms: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const room of rooms) {
+    const title = [room.building, room.floor && `floor ${room.floor}`]
+      .filter((part) => part)
+      .join(", ");
+    groups.set(title, [...(groups.get(title) ?? []), room]);
+  }
+  return Array.from(groups, ([title, rooms]) => ({ title, rooms })).sort((a, b) =>
+    !a.title ? 1 : !b.title ? -1 : a.title.localeCompare(b.title, undefined, { numeric: true })
+  );
+}
+
+// How a room is named in the address of its wall display, like "#/wazzap/lighthouse"
+export function roomSlug(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-");
+}
+
+// The room a wall display was set up for, by its slug or its calendar ID
+export function findRoom(rooms: Room[], key: string): Room | undefined {
+  return rooms.find((room) => room.calendarId === key || roomSlug(room.name) === roomSlug(key));
+}
+
+export type RoomStatus =
+  | { state: "busy"; title: string; until: Temporal.ZonedDateTime }
+  // until is null when nothing more is booked today
+  | { state: "free"; until: Temporal.ZonedDateTime | null };
+
+// Whether the room is in use at now, and until when. Back-to-back bookings count as one, so the
+// room is only said to be free when it actually is.
+export function roomStatus(
+  room: Pick<RoomInformation, "events">,
+  now: Temporal.ZonedDateTime
+): RoomStatus {
+  const upcoming = room.events
+    .filter((event) => Temporal.ZonedDateTime.compare(event.end, now) > 0)
+    .sort((a, b) => Temporal.ZonedDateTime.compare(a.start, b.start));
+  const current = upcoming.find((event) => Temporal.ZonedDateTime.compare(event.start, now) <= 0);
+  if (current) {
+    let until = current.end;
+    for (const event of upcoming) {
+      if (
+        Temporal.ZonedDateTime.compare(event.start, until) <= 0 &&
+        Temporal.ZonedDateTime.compare(event.end, until) > 0
+      ) {
+        until = event.end;
+      }
+    }
+    return { state: "busy", title: current.title, until };
+  }
+  const next = upcoming[0];
+  return {
+    state: "free",
+    until: next && next.start.toPlainDate().equals(now.toPlainDate()) ? next.start : null,
+  };
+}
+
+export type Interval = { start: Temporal.ZonedDateTime; end: Temporal.ZonedDateTime };
+
+// The busy times of each room, or the reason they could not be loaded. Google answers for at
+// most 50 calendars per request.
+export async function fetchFreeBusy(
+  send: FetchFn,
+  rooms: Room[],
+  options: { timeMin: string; timeMax: string; timeZone: string }
+): Promise<Map<string, Interval[] | { error: string }>> {
+  const { timeMin, timeMax, timeZone } = options;
+  const busy = new Map<string, Interval[] | { error: string }>();
+  for (let offset = 0; offset < rooms.length; offset += 50) {
+    const response: {
+      calendars: Record<
+        string,
+        { busy: { start: string; end: string }[]; errors?: { reason: string }[] }
+      >;
+    } = await send("https://www.googleapis.com/calendar/v3/freeBusy", {
+      method: "POST",
+      body: JSON.stringify({
+        timeMin,
+        timeMax,
+        timeZone,
+        items: rooms.slice(offset, offset + 50).map((room) => ({ id: room.calendarId })),
+      }),
+    });
+    for (const [calendarId, calendar] of Object.entries(response.calendars)) {
+      busy.set(
+        calendarId,
+        calendar.errors?.length
+          ? { error: calendar.errors.map((error) => error.reason).join(", ") }
+          : calendar.busy.map((interval) => ({
+              start: zonedDateTime(interval.start, timeZone),
+              end: zonedDateTime(interval.end, timeZone),
+            }))
+      );
+    }
+  }
+  return busy;
+}
+
+export type RoomMatch = Interval & { room: Room };
+
+// Free rooms that fit the party, the snuggest first. Rooms of unknown size come last.
+function freeRooms(
+  rooms: Room[],
+  busy: Map<string, Interval[] | { error: string }>,
+  slot: Interval,
+  attendees: number
+): RoomMatch[] {
+  const spare = (room: Room) =>
+    room.maxAttendance === undefined ? Infinity : room.maxAttendance - attendees;
+  return rooms
+    .filter((room) => spare(room) >= 0)
+    .filter((room) => {
+      const intervals = busy.get(room.calendarId);
+      return (
+        Array.isArray(intervals) &&
+        intervals.every(
+          (interval) =>
+            Temporal.ZonedDateTime.compare(interval.end, slot.start) <= 0 ||
+            Temporal.ZonedDateTime.compare(interval.start, slot.end) >= 0
+        )
+      );
+    })
+    .sort((a, b) => spare(a) - spare(b) || a.name.localeCompare(b.name))
+    .map((room) => ({ room, ...slot }));
+}
+
+// Rooms free for the whole slot, or when none are, the best room at each of the free slots
+// closest to it. Suggestions start on the quarter hour within the working day, and nothing that
+// starts before now is offered.
+export function searchRooms(
+  rooms: Room[],
+  busy: Map<string, Interval[] | { error: string }>,
+  options: {
+    start: Temporal.ZonedDateTime;
+    duration: Temporal.Duration;
+    attendees: number;
+    dayStart?: Temporal.PlainTime;
+    dayEnd?: Temporal.PlainTime;
+    suggestions?: number;
+    now?: Temporal.ZonedDateTime;
+  }
+): { exact: RoomMatch[]; nearest: RoomMatch[] } {
+  const { start, duration, attendees, suggestions = 3 } = options;
+  const now = options.now ?? Temporal.Now.zonedDateTimeISO(start.timeZoneId);
+  // A slot that has already started cannot be booked, so only the suggestions are of use
+  const exact =
+    Temporal.ZonedDateTime.compare(start, now) >= 0
+      ? freeRooms(rooms, busy, { start, end: start.add(duration) }, attendees)
+      : [];
+  if (exact.length > 0) {
+    return { exact, nearest: [] };
+  }
+
+  const dayStart = start.withPlainTime(options.dayStart ?? "07:00");
+  const dayEnd = start.withPlainTime(options.dayEnd ?? "19:00");
+  const candidates: Temporal.ZonedDateTime[] = [];
+  for (
+    let candidate = dayStart;
+    Temporal.ZonedDateTime.compare(candidate.add(duration), dayEnd) <= 0;
+    candidate = candidate.add({ minutes: 15 })
+  ) {
+    if (!candidate.equals(start) && Temporal.ZonedDateTime.compare(candidate, now) >= 0) {
+      candidates.push(candidate);
+    }
+  }
+  const distance = (candidate: Temporal.ZonedDateTime) =>
+    Math.abs(candidate.epochMilliseconds - start.epochMilliseconds);
+  candidates.sort((a, b) => distance(a) - distance(b) || Temporal.ZonedDateTime.compare(a, b));
+
+  const nearest: RoomMatch[] = [];
+  for (const candidate of candidates) {
+    const [best] = freeRooms(
+      rooms,
+      busy,
+      { start: candidate, end: candidate.add(duration) },
+      attendees
+    );
+    if (best) {
+      nearest.push(best);
+      if (nearest.length >= suggestions) break;
+    }
+  }
+  return {
+    exact,
+    nearest: nearest.sort((a, b) => Temporal.ZonedDateTime.compare(a.start, b.start)),
+  };
+}
+
+export type BookingStatus = "accepted" | "declined" | "tentative" | "needsAction";
+
+type BookedEvent = {
+  id: string;
+  attendees?: { email: string; resource?: boolean; responseStatus: BookingStatus }[];
+};
+
+const primaryEventsUrl = "https://www.googleapis.com/calendar/v3/calendars/primary/events";
+
+// Puts a meeting on the user's calendar with the room invited, and returns its event ID. The
+// room answers the invitation on its own, see waitForRoom.
+export async function bookRoom(
+  send: FetchFn,
+  room: Pick<Room, "calendarId" | "name">,
+  options: { start: Temporal.ZonedDateTime; end: Temporal.ZonedDateTime; title?: string }
+): Promise<string> {
+  const { start, end, title = `${room.name} booked from Wazzap` } = options;
+  const event: BookedEvent = await send(primaryEventsUrl, {
+    method: "POST",
+    body: JSON.stringify({
+      summary: title,
+      start: { dateTime: start.toString({ timeZoneName: "never" }), timeZone: start.timeZoneId },
+      end: { dateTime: end.toString({ timeZoneName: "never" }), timeZone: end.timeZoneId },
+      attendees: [{ email: room.calendarId, resource: true }],
+    }),
+  });
+  return event.id;
+}
+
+// Checks the booking until the room has accepted or declined it, or gives up after timeout and
+// returns "needsAction"
+export async function waitForRoom(
+  send: FetchFn,
+  eventId: string,
+  calendarId: string,
+  options?: { timeout?: number; interval?: number; signal?: AbortSignal }
+): Promise<BookingStatus> {
+  const { timeout = 30000, interval = 2000, signal } = options ?? {};
+  const giveUpAt = Date.now() + timeout;
+  for (;;) {
+    const event: BookedEvent = await send(`${primaryEventsUrl}/${encodeURIComponent(eventId)}`, {
+      signal,
+    });
+    const status =
+      event.attendees?.find((attendee) => attendee.email === calendarId)?.responseStatus ??
+      "needsAction";
+    if (status === "accepted" || status === "declined" || Date.now() >= giveUpAt) {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+    signal?.throwIfAborted();
+  }
+}
+
+// Takes a booking the room declined off the user's calendar again
+export async function cancelBooking(send: FetchFn, eventId: string): Promise<void> {
+  await send(`${primaryEventsUrl}/${encodeURIComponent(eventId)}`, { method: "DELETE" });
+}